@@ -0,0 +1,320 @@
+import fs from 'fs';
+import path from 'path';
+import http from 'http';
+import crypto from 'crypto';
+import { pipeline } from 'stream/promises';
+import { VideoSearchResult } from './client';
+import { TimeConverter } from './timezone';
+import { getFilesToDelete } from './retention';
+import { parseVideoclipName, splitDateRangeByDay } from './utils';
+
+export interface ArchivedVideoclip {
+    name: string;
+    localPath: string;
+    size: number;
+    sha256: string;
+    timestamp: number;
+    endTimestamp: number;
+    detectionClasses: string[];
+    archivedAt: number;
+}
+
+export interface VideoclipsArchiverOptions {
+    folder: string;
+    console: Console;
+    searchVideoclips: (startTime: number, endTime: number) => Promise<VideoSearchResult[]>;
+    getDownloadUrl: (name: string) => Promise<string>;
+    scheduleDownload?: <T>(task: (signal?: AbortSignal) => Promise<T>) => Promise<T>;
+    httpGet?: (url: string, options: http.RequestOptions, callback: (res: http.IncomingMessage) => void) => http.ClientRequest;
+    timeConverter: () => TimeConverter;
+    detectionClasses?: string[];
+    maxSpaceInGb?: number;
+    // Checked before every download, i.e. to not drain a battery camera
+    canDownload?: () => Promise<boolean>;
+}
+
+const firstSyncLookbackMs = 1000 * 60 * 60 * 24 * 2;
+const syncOverlapMs = 1000 * 60 * 60;
+const downloadTimeout = 1000 * 60;
+
+export const hashFile = async (filePath: string) => {
+    const hash = crypto.createHash('sha256');
+    await pipeline(fs.createReadStream(filePath), hash);
+
+    return hash.digest('hex');
+}
+
+/**
+ * Mirrors the camera recordings to a local folder, downloads run
+ * one at a time to not overload the camera
+ */
+export class VideoclipsArchiver {
+    manifest: Record<string, ArchivedVideoclip> = {};
+    lastSync: number;
+    private syncing: Promise<void>;
+    private syncInterval: NodeJS.Timeout;
+    private stopped = false;
+    // Size and modification time of the files matching their hash
+    private verified = new Map<string, string>();
+
+    constructor(public options: VideoclipsArchiverOptions) {
+        if (!fs.existsSync(options.folder)) {
+            fs.mkdirSync(options.folder, { recursive: true });
+        }
+    }
+
+    get manifestFile() {
+        return path.join(this.options.folder, 'manifest.json');
+    }
+
+    async load() {
+        const { console } = this.options;
+        try {
+            if (fs.existsSync(this.manifestFile)) {
+                const content = JSON.parse(await fs.promises.readFile(this.manifestFile, 'utf-8'));
+                this.manifest = content.manifest ?? {};
+                this.lastSync = content.lastSync;
+            }
+        } catch (e) {
+            console.log('Error loading the archive manifest', e);
+        }
+
+        // Entries whose file is gone or corrupted are removed, they will be downloaded again
+        for (const name of Object.keys(this.manifest)) {
+            await this.verify(name);
+        }
+    }
+
+    async save() {
+        const tmpFile = `${this.manifestFile}.tmp`;
+        await fs.promises.writeFile(tmpFile, JSON.stringify({
+            lastSync: this.lastSync,
+            manifest: this.manifest,
+        }));
+        await fs.promises.rename(tmpFile, this.manifestFile);
+    }
+
+    get(name: string) {
+        return this.manifest[name];
+    }
+
+    /**
+     * Checks the archived clip against its hash, a missing or corrupted clip is removed
+     * and the next sync downloads it again. Files are hashed again only once modified
+     */
+    async verify(name: string) {
+        const entry = this.manifest[name];
+        if (!entry) {
+            return false;
+        }
+
+        const stat = await fs.promises.stat(entry.localPath).catch(() => undefined as fs.Stats);
+        const fileKey = stat && `${stat.size}:${stat.mtimeMs}`;
+        if (fileKey && this.verified.get(name) === fileKey) {
+            return true;
+        }
+
+        if (stat?.size === entry.size && await hashFile(entry.localPath).catch(() => undefined) === entry.sha256) {
+            this.verified.set(name, fileKey);
+            return true;
+        }
+
+        this.options.console.log(`Archived videoclip ${entry.localPath} missing or corrupted, it will be downloaded again`);
+        await this.remove(name);
+        // The clip must fall in the next sync window
+        if (this.lastSync) {
+            this.lastSync = Math.min(this.lastSync, entry.timestamp);
+            await this.save();
+        }
+
+        return false;
+    }
+
+    start(intervalMs: number) {
+        this.stop();
+        this.stopped = false;
+        this.syncInterval = setInterval(() => this.sync(), intervalMs);
+        this.sync();
+    }
+
+    stop() {
+        this.stopped = true;
+        this.syncInterval && clearInterval(this.syncInterval);
+        this.syncInterval = undefined;
+    }
+
+    async remove(name: string) {
+        const entry = this.manifest[name];
+        if (!entry) {
+            return;
+        }
+
+        await fs.promises.rm(entry.localPath, { force: true });
+        delete this.manifest[name];
+        this.verified.delete(name);
+        await this.save();
+    }
+
+    sync() {
+        if (!this.syncing) {
+            this.syncing = this.syncInternal()
+                .catch(e => this.options.console.log('Error during the archive sync', e))
+                .finally(() => this.syncing = undefined);
+        }
+
+        return this.syncing;
+    }
+
+    private async syncInternal() {
+        const { console, searchVideoclips, detectionClasses, canDownload } = this.options;
+        const timeConverter = this.options.timeConverter();
+        const toTimestamp = (time: VideoSearchResult['StartTime']) => timeConverter.toTimestamp(time);
+        const now = Date.now();
+
+        if (canDownload && !await canDownload()) {
+            console.log('Archive sync deferred, the camera is not available');
+            return;
+        }
+        const syncFrom = this.lastSync;
+        const startTime = syncFrom ? syncFrom - syncOverlapMs : now - firstSyncLookbackMs;
+
+        const foundMap = new Map<string, VideoSearchResult>();
+        for (const { start, end } of splitDateRangeByDay(startTime, now, timeConverter)) {
+            for (const file of await searchVideoclips(start, end)) {
+                foundMap.set(file.name, file);
+            }
+        }
+        const found = Array.from(foundMap.values());
+
+        const toArchive = found.filter(file => {
+            if (this.manifest[file.name]) {
+                return false;
+            }
+
+            if (detectionClasses?.length) {
+                const fileDetectionClasses = parseVideoclipName(file.name)?.detectionClasses ?? [];
+                return fileDetectionClasses.some(detectionClass => detectionClasses.includes(detectionClass));
+            }
+
+            return true;
+        });
+
+        console.log(`Archive sync: ${toArchive.length} new videoclips out of ${found.length}`);
+
+        let archived = 0;
+        let oldestFailure: number;
+        for (const [index, file] of toArchive.entries()) {
+            if (this.stopped) {
+                break;
+            }
+
+            if (canDownload && !await canDownload()) {
+                console.log('Archive sync interrupted, the camera is not available anymore');
+                // The remaining clips must fall in the next sync window
+                for (const remaining of toArchive.slice(index)) {
+                    oldestFailure = Math.min(oldestFailure ?? now, toTimestamp(remaining.StartTime));
+                }
+                break;
+            }
+
+            try {
+                const localPath = await this.download(file);
+                const stat = await fs.promises.stat(localPath);
+
+                this.manifest[file.name] = {
+                    name: file.name,
+                    localPath,
+                    size: stat.size,
+                    sha256: await hashFile(localPath),
+                    timestamp: toTimestamp(file.StartTime),
+                    endTimestamp: toTimestamp(file.EndTime),
+                    detectionClasses: parseVideoclipName(file.name)?.detectionClasses ?? [],
+                    archivedAt: Date.now(),
+                };
+                archived++;
+                await this.save();
+            } catch (e) {
+                console.log(`Error archiving ${file.name}, will be retried on the next sync`, e.message);
+                oldestFailure = Math.min(oldestFailure ?? now, toTimestamp(file.StartTime));
+            }
+        }
+
+        await this.applyRetention();
+
+        if (!this.stopped) {
+            // Failed downloads must fall in the next sync window, as the clips
+            // removed by a failed verification during the sync
+            const redownloadFrom = this.lastSync !== syncFrom ? this.lastSync : undefined;
+            this.lastSync = Math.min(oldestFailure ?? now, redownloadFrom ?? now);
+            await this.save();
+        }
+        console.log(`Archive sync completed, ${archived} videoclips archived`);
+    }
+
+    private async download(file: VideoSearchResult) {
+        const { folder, getDownloadUrl, console } = this.options;
+        const localPath = path.join(folder, path.basename(file.name));
+        const partPath = `${localPath}.part`;
+
+        let offset = fs.existsSync(partPath) ? (await fs.promises.stat(partPath)).size : 0;
+        if (file.size && offset >= file.size) {
+            offset = 0;
+        }
+
+        const url = await getDownloadUrl(file.name);
+        console.debug(`Downloading ${file.name} ${offset ? `resuming from byte ${offset}` : ''}`);
+
+        const scheduleDownload = this.options.scheduleDownload ?? (task => task());
+        const httpGet = this.options.httpGet ?? http.get;
+        await scheduleDownload((signal) => new Promise<void>((resolve, reject) => {
+            const req = httpGet(url, {
+                headers: offset ? { Range: `bytes=${offset}-` } : {},
+                timeout: downloadTimeout,
+                signal,
+            }, (res) => {
+                if (res.statusCode >= 400 || res.headers['content-type']?.includes('json')) {
+                    res.resume();
+                    reject(new Error(`Download failed: ${res.statusCode} - ${res.statusMessage}`));
+                    return;
+                }
+
+                // The camera could ignore the range and send the whole file
+                const append = !!offset && res.statusCode === 206;
+                pipeline(res, fs.createWriteStream(partPath, { flags: append ? 'a' : 'w' }))
+                    .then(resolve, reject);
+            });
+
+            req.on('timeout', () => req.destroy(new Error('Download timed out')));
+            req.on('error', reject);
+        }));
+
+        const { size } = await fs.promises.stat(partPath);
+        if (file.size && size !== file.size) {
+            throw new Error(`Downloaded size ${size} differs from the expected ${file.size}`);
+        }
+
+        await fs.promises.rename(partPath, localPath);
+
+        return localPath;
+    }
+
+    private async applyRetention() {
+        const { maxSpaceInGb, console } = this.options;
+        if (!maxSpaceInGb) {
+            return;
+        }
+
+        const toDelete = getFilesToDelete({
+            files: Object.values(this.manifest).map(entry => ({ ...entry, fullPath: entry.localPath })),
+            policy: { maxSpaceInGb },
+        });
+
+        for (const { file } of toDelete) {
+            await this.remove(file.name);
+        }
+
+        if (toDelete.length) {
+            console.log(`Archive retention removed ${toDelete.length} videoclips`);
+        }
+    }
+}
@@ -1,33 +1,47 @@
-import sdk, { VideoClips, VideoClipOptions, VideoClip, MediaObject, VideoClipThumbnailOptions, Setting, Settings, RecordedEvent } from "@scrypted/sdk";
+import sdk, { VideoClips, VideoClipOptions, VideoClip, MediaObject, VideoClipThumbnailOptions, Setting, Settings, RecordedEvent, ScryptedInterface, ChargeState } from "@scrypted/sdk";
 import { SettingsMixinDeviceBase, SettingsMixinDeviceOptions } from "@scrypted/sdk/settings-mixin";
 import { StorageSettings } from "@scrypted/sdk/storage-settings";
 import keyBy from "lodash/keyBy";
 import { ReolinkCameraClient, VideoSearchType, VideoSearchTime, VideoSearchResult } from "./client";
 import ReolinkVideoclipssProvider from "./main";
-import { getThumbnailMediaObject, getFolderPaths, parseVideoclipName, splitDateRangeByDay, pluginId } from "./utils";
+import { getThumbnailMediaObject, getFolderPaths, parseVideoclipName, splitDateRangeByDay, pluginId, getThumbnailPath, compileFilenameTemplate, defaultFilenameTemplate, FilenameTemplate, parseFilenameTemplate, mergeVideoclips, hasDstMarker, getClipId, isPathInside, parseThumbnailPosition, getImageMediaObject } from "./utils";
+import { CameraTimezone, localTimeConverter } from "./timezone";
 import fs from 'fs';
 import path from 'path';
-import { cleanupMemoryThresholderInGb, calculateSize } from '../../scrypted-events-recorder/src/util';
-
-const { endpointManager } = sdk;
-
-interface VideoclipFileData {
-    filename: string;
-    fullPath: string;
-    time: VideoSearchTime;
-    type: 'video' | 'image';
-    size: number;
-}
-
-const videoclippathRegex = new RegExp('(.*)([0-9]{4})([0-9]{2})([0-9]{2})([0-9]{2})([0-9]{2})([0-9]{2})(.*)');
+import { bytesToGb, getFilesToDelete, getFreeSpaceInGb, RetentionFile } from "./retention";
+import { FtpClipIndex, ParsedFilename } from "./clipIndex";
+import { getVideoclipMetadata, hasMoovBox, probeMetadata, VideoclipMetadata } from "./mp4";
+import { VideoclipsArchiver } from "./archive";
+import { SearchResultsCache } from "./searchCache";
+import { ReolinkConnectionOptions, ReolinkSession } from "./session";
+import { browserVideoCodecs, TranscodingJob, VideoclipsTranscoder } from "./transcoder";
+import { HlsPackager, isHlsSegmentName } from "./hls";
+import { repairVideoclip } from "./repair";
+import { RequestPriority } from "./scheduler";
+
+// Only the thumbnails of the recent clips are pre-generated, the older ones on request
+const pregenerateLookbackMs = 1000 * 60 * 60 * 24;
+const thumbnailsRetentionIntervalMs = 1000 * 60 * 10;
+const regenerateMaxThumbnails = 200;
 
 export default class ReolinkVideoclipssMixin extends SettingsMixinDeviceBase<any> implements Settings, VideoClips {
     client: ReolinkCameraClient;
+    private clientPromise: Promise<ReolinkCameraClient>;
     killed: boolean;
     ftpScanTimeout: NodeJS.Timeout;
-    ftpScanData: VideoclipFileData[] = [];
+    clipIndex: FtpClipIndex;
+    archiver: VideoclipsArchiver;
+    searchCache: SearchResultsCache;
+    transcoder: VideoclipsTranscoder;
+    hlsPackager: HlsPackager;
+    lastStorageCheck: number;
+    filenameTemplate: FilenameTemplate;
     logger: Console;
     lastScanFs: number;
+    private clipIds = new Map<string, string>();
+    private videoclipCodecs = new Map<string, string>();
+    private queuedThumbnails = new Set<string>();
+    private lastThumbnailsRetention: number;
 
     storageSettings = new StorageSettings(this, {
         username: {
@@ -38,6 +52,41 @@ export default class ReolinkVideoclipssMixin extends SettingsMixinDeviceBase<any
             title: 'Password',
             type: 'password',
         },
+        channel: {
+            title: 'Channel',
+            description: 'Channel of the camera on the NVR or Home Hub. Default to the channel of the camera or discovered by its name',
+            type: 'number',
+            onPut: async () => {
+                this.resetClient();
+                await this.checkFtpScan();
+            }
+        },
+        protocol: {
+            title: 'Protocol',
+            description: 'Auto uses HTTPS when the camera has an HTTPS port set',
+            type: 'string',
+            choices: ['Auto', 'HTTP', 'HTTPS'],
+            defaultValue: 'Auto',
+            onPut: async () => this.resetClient()
+        },
+        port: {
+            title: 'Port',
+            description: 'Default to the port of the camera',
+            type: 'number',
+            onPut: async () => this.resetClient()
+        },
+        caCertificate: {
+            title: 'CA certificate',
+            description: 'PEM of the CA, or the self signed certificate, the HTTPS certificate of the camera must be signed with',
+            type: 'textarea',
+            onPut: async () => this.resetClient()
+        },
+        certificateFingerprint: {
+            title: 'Certificate fingerprint',
+            description: 'SHA-256 fingerprint the HTTPS certificate of the camera must match',
+            type: 'string',
+            onPut: async () => this.resetClient()
+        },
         debug: {
             title: 'Log debug messages',
             type: 'boolean',
@@ -50,16 +99,47 @@ export default class ReolinkVideoclipssMixin extends SettingsMixinDeviceBase<any
             immediate: true,
             onPut: async () => this.checkFtpScan()
         },
+        hybrid: {
+            title: 'Merge with SD card clips',
+            description: 'Search the clips on the camera as well. Clips available on both are played from the FTP folder',
+            type: 'boolean',
+            defaultValue: false,
+            immediate: true,
+        },
         ftpFolder: {
             title: 'FTP folder',
             description: 'FTP folder where reolink stores the clips',
             type: 'string',
             onPut: async () => this.checkFtpScan()
         },
-        filenamePrefix: {
-            title: 'Filename prefix',
-            description: 'This should contain any text of the clip names outside of the date numbers. I.e. Videocamera dispensa_00_20250105123640.mp4 -> Videocamera dispensa_00_',
+        ftpServerUsername: {
+            title: 'FTP server username',
+            description: 'Username the camera uses to upload to the plugin FTP server, if enabled',
+            type: 'string',
+        },
+        ftpServerPassword: {
+            title: 'FTP server password',
+            type: 'password',
+        },
+        filenameTemplate: {
+            title: 'Filename template',
+            description: 'Path of the clips relative to the FTP folder, without extension. Tokens: {year} {mon} {day} {hour} {min} {sec} {channel} {camera}, * matches any text. I.e. Videocamera dispensa_00_20250105123640.mp4 -> Videocamera dispensa_{channel}_{year}{mon}{day}{hour}{min}{sec}, 2025/01/05/Videocamera dispensa_00_123640.mp4 -> {year}/{mon}/{day}/{camera}_{channel}_{hour}{min}{sec}',
             type: 'string',
+            placeholder: defaultFilenameTemplate,
+            onPut: async () => this.checkFtpScan()
+        },
+        uploadStableSeconds: {
+            title: 'Upload completion window in seconds',
+            description: 'Clips are listed only once they are not modified for this time, to skip uploads in progress',
+            type: 'number',
+            defaultValue: 30,
+            onPut: async () => this.checkFtpScan()
+        },
+        repairTruncatedClips: {
+            title: 'Repair truncated clips',
+            description: 'Recover the video of the clips missing the moov atom, i.e. uploads interrupted by a power loss, using a complete clip of the camera as reference. The audio is lost. Clips that cannot be repaired are not listed',
+            type: 'boolean',
+            defaultValue: false,
             onPut: async () => this.checkFtpScan()
         },
         maxSpaceInGb: {
@@ -68,6 +148,20 @@ export default class ReolinkVideoclipssMixin extends SettingsMixinDeviceBase<any
             defaultValue: 20,
             onPut: async (_, newValue) => await this.scanFs(newValue)
         },
+        maxDays: {
+            title: 'Days to keep',
+            description: 'Videoclips older than this will be deleted. Set 0 to disable',
+            type: 'number',
+            defaultValue: 0,
+            onPut: async () => await this.scanFs()
+        },
+        minFreeSpaceInGb: {
+            title: 'Minimum free disk space in GB',
+            description: 'Oldest videoclips will be deleted when the free space of the disk goes below this value',
+            type: 'number',
+            defaultValue: 1,
+            onPut: async () => await this.scanFs()
+        },
         occupiedSpaceInGb: {
             title: 'Memory occupancy in GB',
             type: 'number',
@@ -75,6 +169,143 @@ export default class ReolinkVideoclipssMixin extends SettingsMixinDeviceBase<any
             readonly: true,
             placeholder: 'GB'
         },
+        minBatteryPercent: {
+            title: 'Minimum battery percentage',
+            description: 'Battery cameras are not queried below this level, unless charging. Cached results are shown instead',
+            type: 'number',
+            defaultValue: 20,
+        },
+        searchCacheTtlSeconds: {
+            title: 'Search cache duration for the current day in seconds',
+            description: 'Results of the past days are cached until the clips are removed or the storage is formatted',
+            type: 'number',
+            defaultValue: 60,
+            onPut: () => this.searchCache = undefined
+        },
+        clearSearchCache: {
+            title: 'Clear search cache',
+            type: 'button',
+            onPut: () => this.getSearchCache().invalidate()
+        },
+        archive: {
+            title: 'Archive SD card clips',
+            description: 'Download the clips recorded on the SD card to the local storage, before they get overwritten',
+            type: 'boolean',
+            defaultValue: false,
+            immediate: true,
+            onPut: async () => await this.checkArchive()
+        },
+        archiveDetectionClasses: {
+            title: 'Archive only clips with detections',
+            description: 'Leave empty to archive all the clips',
+            type: 'string',
+            multiple: true,
+            combobox: true,
+            choices: ['person', 'vehicle', 'animal', 'face', 'motion'],
+            defaultValue: [],
+            onPut: async () => await this.checkArchive()
+        },
+        archiveMaxSpaceInGb: {
+            title: 'Archive dedicated memory in GB',
+            type: 'number',
+            defaultValue: 20,
+            onPut: async () => await this.checkArchive()
+        },
+        thumbnailPosition: {
+            title: 'Thumbnail position',
+            description: 'Seconds from the start of the clip, or a percentage of its duration, i.e. 5 or 20%. The first keyframe is used for shorter clips',
+            type: 'string',
+            defaultValue: '5',
+        },
+        thumbnailWidth: {
+            title: 'Thumbnail width',
+            description: 'Thumbnails are stored downscaled to this width. Set 0 to keep the original size',
+            type: 'number',
+            defaultValue: 640,
+        },
+        transcodeVideoclips: {
+            title: 'Transcode H.265 clips to H.264',
+            description: 'Clips not playable in the browsers are transcoded with FFmpeg when requested and streamed while transcoding, seeking is available once completed. H.264 clips are served as they are',
+            type: 'boolean',
+            defaultValue: false,
+            immediate: true,
+        },
+        transcodeMaxSpaceInGb: {
+            title: 'Transcoded clips dedicated memory in GB',
+            description: 'Least recently played clips are removed above this size',
+            type: 'number',
+            defaultValue: 5,
+            onPut: () => this.transcoder = undefined
+        },
+        playbackFormat: {
+            title: 'Videoclip playback format',
+            description: 'HLS starts the playback of long clips right away, clips not in H.264 are transcoded',
+            type: 'string',
+            choices: ['MP4', 'HLS'],
+            defaultValue: 'MP4',
+            immediate: true,
+        },
+        hlsCacheHours: {
+            title: 'HLS cache duration in hours',
+            description: 'Packaged clips not played for this time are removed',
+            type: 'number',
+            defaultValue: 24,
+            onPut: () => this.hlsPackager = undefined
+        },
+        pregenerateThumbnails: {
+            title: 'Pre-generate thumbnails',
+            description: 'Generate in background the thumbnails of the new clips, instead of when the timeline is opened',
+            type: 'boolean',
+            defaultValue: false,
+            immediate: true,
+        },
+        thumbnailsMaxSpaceInMb: {
+            title: 'Thumbnails dedicated memory in MB',
+            description: 'Least recently viewed thumbnails are removed above this size. Set 0 to disable',
+            type: 'number',
+            defaultValue: 500,
+            onPut: async () => await this.applyThumbnailsRetention(true)
+        },
+        thumbnailsMaxDays: {
+            title: 'Days to keep the thumbnails',
+            description: 'Thumbnails not viewed for this time are removed. Set 0 to disable',
+            type: 'number',
+            defaultValue: 30,
+            onPut: async () => await this.applyThumbnailsRetention(true)
+        },
+        clearThumbnails: {
+            title: 'Clear thumbnails',
+            type: 'button',
+            onPut: async () => await this.clearThumbnails()
+        },
+        regenerateThumbnails: {
+            title: 'Regenerate thumbnails',
+            description: `Clear and generate again the thumbnails of the latest ${regenerateMaxThumbnails} clips`,
+            type: 'button',
+            onPut: async () => await this.regenerateThumbnails()
+        },
+        calendarUrl: {
+            title: 'Recordings calendar URL',
+            description: 'Days with recordings in a month, as JSON. Add &year=2025&month=1 for other months than the current one. Renewed as the other webhook URLs',
+            type: 'string',
+            readonly: true,
+        },
+        metricsUrl: {
+            title: 'Camera requests metrics URL',
+            description: 'Queue and timing of the requests to the camera, as JSON',
+            type: 'string',
+            readonly: true,
+        },
+        removedVideoclips: {
+            json: true,
+            hide: true,
+            defaultValue: [],
+        },
+        // Last time settings read from the camera, used while it sleeps
+        cameraTimeSettings: {
+            json: true,
+            hide: true,
+        },
     });
 
     constructor(options: SettingsMixinDeviceOptions<any>, private plugin: ReolinkVideoclipssProvider) {
@@ -83,7 +314,9 @@ export default class ReolinkVideoclipssMixin extends SettingsMixinDeviceBase<any
         const logger = this.getLogger();
 
         this.plugin.mixinsMap[this.id] = this;
+        this.migrateSettings();
         this.checkFtpScan().catch(logger.log);
+        this.checkArchive().catch(logger.log);
     }
 
     public getLogger() {
@@ -106,13 +339,71 @@ export default class ReolinkVideoclipssMixin extends SettingsMixinDeviceBase<any
         return this.logger;
     }
 
+    private migrateSettings() {
+        // The filename prefix has been replaced by the filename template
+        const filenamePrefix = this.storage.getItem('filenamePrefix');
+        if (filenamePrefix) {
+            if (!this.storageSettings.values.filenameTemplate) {
+                this.storageSettings.values.filenameTemplate = `${filenamePrefix}{year}{mon}{day}{hour}{min}{sec}*`;
+            }
+            this.storage.removeItem('filenamePrefix');
+        }
+    }
+
     async release() {
         this.killed = true;
+        this.stopFtpScan();
+        this.archiver?.stop();
+        this.plugin.releaseSession(this.id);
+    }
+
+    async checkArchive() {
+        const logger = this.getLogger();
+        const { archive, archiveDetectionClasses, archiveMaxSpaceInGb } = this.storageSettings.values;
+
+        this.archiver?.stop();
+        this.archiver = undefined;
+
+        if (!archive || this.killed) {
+            return;
+        }
+
+        const { archiveFolder } = getFolderPaths(this.id, this.plugin.storageSettings.values.downloadFolder);
+        const archiver = new VideoclipsArchiver({
+            folder: archiveFolder,
+            console: logger,
+            detectionClasses: archiveDetectionClasses,
+            maxSpaceInGb: archiveMaxSpaceInGb,
+            timeConverter: () => this.getTimeConverter(),
+            searchVideoclips: (startTime, endTime) => this.searchCameraVideoclips(startTime, endTime, true),
+            getDownloadUrl: async (name) => {
+                const api = await this.getClient();
+                await api.login();
+                const { downloadPathWithHost } = await api.getVideoClipUrl(name, this.id);
+                return downloadPathWithHost;
+            },
+            canDownload: () => this.canReachCamera(true),
+            // The client is already created to get the download URL
+            httpGet: (url, options, callback) => this.client.session.get(url, options, callback),
+            // Downloads have their own socket timeout, they can last longer than a request.
+            // One download at a time per host, the cameras of an NVR share it
+            scheduleDownload: async (task) => {
+                const api = await this.getClient();
+                return this.plugin.getDownloadScheduler(api.session.host).run(
+                    () => api.session.scheduler.run(task, { priority: 'background', label: 'Archive download', timeoutMs: 0, longRunning: true }),
+                    { priority: 'background', label: 'Archive download', timeoutMs: 0 },
+                );
+            },
+        });
+        this.archiver = archiver;
+
+        await archiver.load();
+        archiver.start(1000 * 60 * 15);
     }
 
     async checkFtpScan() {
         const { ftp, ftpFolder } = this.storageSettings.values;
-        if (ftp && ftpFolder) {
+        if (ftp && ftpFolder && !this.killed) {
             await this.startFtpScan();
         } else {
             this.stopFtpScan();
@@ -125,77 +416,84 @@ export default class ReolinkVideoclipssMixin extends SettingsMixinDeviceBase<any
         }
 
         this.ftpScanTimeout = undefined;
+        this.clipIndex?.stop().catch(this.getLogger().log);
+        this.clipIndex = undefined;
     }
 
-    async startFtpScan() {
+    private parseFtpFilename(fullPath: string): ParsedFilename {
         const logger = this.getLogger();
-        const { ftpFolder, filenamePrefix } = this.storageSettings.values;
-        this.stopFtpScan();
-
-        const searchFile = async (dir: string, currentResult: VideoclipFileData[] = []) => {
-            const result: VideoclipFileData[] = [...currentResult];
-            const files = await fs.promises.readdir(dir) || [];
+        const { ftpFolder } = this.storageSettings.values;
+        const relativePath = path.relative(ftpFolder, fullPath);
 
-            const filteredFiles = files.filter(file =>
-                (filenamePrefix ? file.startsWith(filenamePrefix) : true) &&
-                file.endsWith('mp4')
-            );
-            logger.debug(`Files found: ${JSON.stringify({ files, filteredFiles })}`);
+        const parsed = parseFilenameTemplate(relativePath, this.filenameTemplate);
+        logger.debug(`Parsing filename: ${JSON.stringify({
+            relativePath,
+            parsed,
+        })}`);
 
-            for (const file of filteredFiles) {
-                const fullPath = path.join(dir, file);
+        // NVRs and Home Hubs upload the clips of all the channels in the same folder
+        if (parsed?.channel !== undefined && this.client && parsed.channel !== this.client.channelId) {
+            return;
+        }
 
-                const fileStat = fs.statSync(fullPath);
+        if (parsed?.extension === 'mp4') {
+            return {
+                time: parsed.time,
+                timestamp: this.processDate(parsed.time, hasDstMarker(relativePath) || undefined),
+                type: 'video',
+            };
+        }
 
-                if (fileStat.isDirectory()) {
-                    result.push(...(await searchFile(fullPath, result)));
-                } else {
-                    let timestamp = file;
+        // Snapshots uploaded together with the clips
+        if (parsed?.extension === 'jpg' || parsed?.extension === 'jpeg') {
+            return {
+                time: parsed.time,
+                timestamp: this.processDate(parsed.time, hasDstMarker(relativePath) || undefined),
+                type: 'image',
+            };
+        }
+    }
 
-                    if (filenamePrefix) {
-                        const splitted = file.split(filenamePrefix);
-                        timestamp = splitted[1];
-                    }
-                    logger.debug(`Parsing filename: ${JSON.stringify({
-                        file,
-                        timestamp,
-                        videoclippathRegex
-                    })}`);
-
-                    try {
-                        const regexResult = videoclippathRegex.exec(timestamp);
-                        if (regexResult) {
-                            const [__, ___, year, mon, day, hour, min, sec] = regexResult;
-
-                            result.push({
-                                filename: file,
-                                fullPath,
-                                time: {
-                                    day: Number(day),
-                                    hour: Number(hour),
-                                    min: Number(min),
-                                    mon: Number(mon),
-                                    sec: Number(sec),
-                                    year: Number(year),
-                                },
-                                type: file.endsWith('mp4') ? 'video' : 'image',
-                                size: fileStat.size
-                            });
-                        }
-                    } catch (e) {
-                        logger.log(`Error parsing file ${file} in path ${dir}`);
-                    }
-                }
-            }
+    async startFtpScan() {
+        const logger = this.getLogger();
+        const { ftpFolder, filenameTemplate, uploadStableSeconds, repairTruncatedClips } = this.storageSettings.values;
+        this.stopFtpScan();
+        this.filenameTemplate = compileFilenameTemplate(filenameTemplate);
+
+        // Channel and timezone of the camera are needed to parse the filenames. A sleeping camera is
+        // not woken up, the last timezone read is used
+        const client = await this.canReachCamera(true) ?
+            await this.getClient().catch(e => {
+                logger.log('Error creating the client, FTP clips are parsed in the server timezone for all the channels', e.message);
+                return undefined as ReolinkCameraClient;
+            }) :
+            this.client;
+        const channel = this.filenameTemplate.tokens.includes('channel') ? client?.channelId : undefined;
+        const timezone = this.getTimezoneSignature();
+
+        const { indexFile } = getFolderPaths(this.id, this.plugin.storageSettings.values.downloadFolder);
+        const clipIndex = new FtpClipIndex({
+            folder: ftpFolder,
+            indexFile,
+            signature: JSON.stringify({ ftpFolder, filenameTemplate, repairTruncatedClips, channel, timezone }),
+            parseFilename: (fullPath) => this.parseFtpFilename(fullPath),
+            readMetadata: (fullPath) => this.readFtpMetadata(fullPath),
+            stableWindowMs: uploadStableSeconds * 1000,
+            onEntryAdded: (entry) => entry.type === 'video' && this.enqueueRecentThumbnails([{ path: entry.fullPath, timestamp: entry.timestamp }]),
+            onEntryRemoved: (entry) => this.forgetVideoclip(entry.fullPath),
+            console: logger,
+        });
+        this.clipIndex = clipIndex;
 
-            return result;
-        }
+        await clipIndex.load();
+        clipIndex.watch();
 
         this.ftpScanTimeout = setInterval(async () => {
             try {
                 const now = Date.now();
 
-                this.ftpScanData = await searchFile(ftpFolder);
+                // Fallback for missed watcher events, i.e. network mounts
+                await clipIndex.reconcile();
 
                 // Every 1 hour
                 if (!this.lastScanFs || (now - this.lastScanFs) > (1000 * 60 * 60)) {
@@ -205,89 +503,144 @@ export default class ReolinkVideoclipssMixin extends SettingsMixinDeviceBase<any
             catch (e) {
                 logger.log('Error in scanning the ftp folder', e);
             }
-        }, 1000 * 10);
+        }, 1000 * 60 * 10);
 
+        await clipIndex.reconcile();
         await this.scanFs();
-        this.ftpScanData = await searchFile(ftpFolder);
+    }
+
+    private async readFtpMetadata(fullPath: string): Promise<VideoclipMetadata> {
+        // Without the moov atom, i.e. uploads interrupted by a power loss, the clips are not playable
+        if (!await hasMoovBox(fullPath)) {
+            if (!this.storageSettings.values.repairTruncatedClips || !await this.repairFtpVideoclip(fullPath)) {
+                this.getLogger().log(`Videoclip ${fullPath} is missing the moov atom, skipping it`);
+                return { missingMoov: true };
+            }
+        }
+
+        return getVideoclipMetadata(fullPath);
+    }
+
+    private async repairFtpVideoclip(fullPath: string) {
+        const logger = this.getLogger();
+        const timestamp = this.parseFtpFilename(fullPath)?.timestamp ?? Date.now();
+        const reference = this.clipIndex?.getReferenceVideo(timestamp);
+        if (!reference) {
+            logger.log(`No complete clip to repair ${fullPath} with`);
+            return false;
+        }
+
+        try {
+            logger.log(`Repairing truncated videoclip ${fullPath} with reference ${reference.fullPath}`);
+            const recovered = await this.plugin.getThumbnailScheduler().run((signal) => repairVideoclip({
+                filePath: fullPath,
+                referencePath: reference.fullPath,
+                console: logger,
+                signal,
+            }), { priority: 'background', label: 'Repair' });
+            logger.log(`Videoclip ${fullPath} repaired, ${recovered} NAL units recovered`);
+
+            return true;
+        } catch (e) {
+            logger.log(`Error repairing videoclip ${fullPath}`, e.message);
+            return false;
+        }
+    }
+
+    async onFtpUpload(fullPath: string) {
+        const logger = this.getLogger();
+        logger.debug(`Upload completed: ${fullPath}`);
+
+        await this.clipIndex?.updatePath(fullPath, true);
     }
 
     async scanFs(newMaxMemory?: number) {
         const logger = this.getLogger();
         logger.log(`Starting FS scan: ${JSON.stringify({ newMaxMemory })}`);
 
-        const { ftpFolder, filenamePrefix } = this.storageSettings.values;
+        const { ftp, ftpFolder, maxDays, minFreeSpaceInGb } = this.storageSettings.values;
         const { maxSpaceInGb: maxSpaceInGbSrc } = this.storageSettings.values;
+        if (!ftp || !ftpFolder) {
+            return;
+        }
+
         const maxSpaceInGb = newMaxMemory ?? maxSpaceInGbSrc;
 
-        const { occupiedSpaceInGb, occupiedSpaceInGbNumber, freeMemory } = await calculateSize({
-            currentPath: ftpFolder,
-            filenamePrefix,
-            maxSpaceInGb
+        const freeSpaceInGb = await getFreeSpaceInGb(ftpFolder);
+        const toDelete = getFilesToDelete({
+            files: this.clipIndex?.entries ?? [],
+            freeSpaceInGb,
+            policy: {
+                maxSpaceInGb,
+                maxDays,
+                minFreeSpaceInGb,
+            }
         });
-        this.storageSettings.settings.occupiedSpaceInGb.range = [0, maxSpaceInGb]
-        this.putMixinSetting('occupiedSpaceInGb', occupiedSpaceInGb);
-        logger.debug(`Occupied space: ${occupiedSpaceInGb} GB`);
 
-        // if (freeMemory <= cleanupMemoryThresholderInGb) {
-        //     const files = await fs.promises.readdir(ftpFolder);
-
-        //     const fileDetails = files
-        //         .map((file) => {
-        //             const match = filenamePrefix ? file.startsWith(filenamePrefix) : true;
-        //             if (match) {
-        //                 let timestamp = file;
-
-        //                 if (filenamePrefix) {
-        //                     const splitted = file.split(filenamePrefix);
-        //                     timestamp = splitted[1];
-        //                 }
-
-        //                 const regexResult = videoclippathRegex.exec(timestamp);
-        //                 if (regexResult) {
-        //                     const [__, ___, year, mon, day, hour, min, sec] = regexResult;
-        //                     const time: VideoSearchTime = {
-        //                         day: Number(day),
-        //                         hour: Number(hour),
-        //                         min: Number(min),
-        //                         mon: Number(mon),
-        //                         sec: Number(sec),
-        //                         year: Number(year),
-        //                     }
-        //                     const timestampParsed = this.processDate(time);
-
-        //                     const { videoClipPath } = this.getStorageDirs(file);
-        //                     return { file, fullPath: videoClipPath, timeStart: Number(timeStart) };
-        //                 }
-        //             }
-        //             return null;
-        //         })
-        //         .filter(Boolean);
-
-        //     fileDetails.sort((a, b) => a.timeStart - b.timeStart);
-
-        //     const filesToDelete = Math.min(fileDetails.length, clipsToCleanup);
-
-        //     logger.log(`Deleting ${filesToDelete} oldest files... ${JSON.stringify({ freeMemory, cleanupMemoryThresholderInGb })}`);
-
-        //     for (let i = 0; i < filesToDelete; i++) {
-        //         const { fullPath, file } = fileDetails[i];
-        //         await fs.promises.rm(fullPath, { force: true, recursive: true, maxRetries: 10 });
-        //         logger.log(`Deleted videoclip: ${file}`);
-        //         const { thumbnailPath } = this.getStorageDirs(file);
-        //         await fs.promises.rm(thumbnailPath, { force: true, recursive: true, maxRetries: 10 });
-        //         logger.log(`Deleted thumbnail: ${thumbnailPath}`);
-        //     }
-        // }
+        let deletedCount = 0;
+        let freedBytes = 0;
+        const reasons: Record<string, number> = {};
+        for (const { file, reason } of toDelete) {
+            if (await this.deleteFtpVideoclip(file.fullPath)) {
+                deletedCount++;
+                freedBytes += file.size;
+                reasons[reason] = (reasons[reason] ?? 0) + 1;
+            }
+        }
+
+        if (deletedCount) {
+            logger.log(`Retention removed ${deletedCount} videoclips: ${JSON.stringify({
+                freedSpaceInGb: bytesToGb(freedBytes).toFixed(2),
+                reasons,
+                oldest: toDelete[0].file.filename,
+                newest: toDelete[toDelete.length - 1].file.filename,
+            })}`);
+        }
+
+        const occupiedSpaceInGb = bytesToGb((this.clipIndex?.entries ?? []).reduce((tot, item) => tot + item.size, 0));
+        this.storageSettings.settings.occupiedSpaceInGb.range = [0, maxSpaceInGb];
+        this.putMixinSetting('occupiedSpaceInGb', occupiedSpaceInGb.toFixed(2));
+        logger.debug(`Occupied space: ${occupiedSpaceInGb} GB`);
 
         this.lastScanFs = Date.now();
         logger.log(`FS scan executed: ${JSON.stringify({
-            freeMemory,
-            occupiedSpaceInGbNumber,
+            freeSpaceInGb,
+            occupiedSpaceInGb,
             maxSpaceInGb,
-            cleanupMemoryThresholderInGb
+            maxDays,
+            minFreeSpaceInGb,
         })}`);
     }
 
+    private async deleteFtpVideoclip(videoclipPath: string) {
+        const logger = this.getLogger();
+        const { ftpFolder } = this.storageSettings.values;
+        const { thumbnailFolder } = getFolderPaths(this.id, this.plugin.storageSettings.values.downloadFolder);
+
+        // Only files inside the FTP folder can be removed
+        const fullPath = path.resolve(videoclipPath);
+        if (!ftpFolder || !fullPath.startsWith(path.resolve(ftpFolder) + path.sep)) {
+            logger.log(`Videoclip ${videoclipPath} is not in the FTP folder, skipping`);
+            return false;
+        }
+
+        try {
+            await fs.promises.rm(fullPath, { force: true, maxRetries: 10 });
+            this.clipIndex?.remove(fullPath);
+            logger.debug(`Deleted videoclip: ${fullPath}`);
+
+            const filename = videoclipPath.split('/').pop().split('.')[0];
+            const thumbnailPath = getThumbnailPath(thumbnailFolder, filename);
+            await fs.promises.rm(thumbnailPath, { force: true, maxRetries: 10 });
+            logger.debug(`Deleted thumbnail: ${thumbnailPath}`);
+
+            return true;
+        } catch (e) {
+            logger.log(`Error removing videoclip ${videoclipPath}`, e);
+            return false;
+        }
+    }
+
     async getDeviceProperties() {
         const deviceSettings = await this.mixinDevice.getSettings();
 
@@ -296,145 +649,488 @@ export default class ReolinkVideoclipssMixin extends SettingsMixinDeviceBase<any
         const password = deviceSettingsMap['password']?.value;
         const host = deviceSettingsMap['ip']?.value;
         const channel = deviceSettingsMap['rtspChannel']?.value;
+        const httpPort = deviceSettingsMap['httpPort']?.value;
+        const httpsPort = deviceSettingsMap['httpsPort']?.value;
 
-        return { username, password, host, channel }
+        return { username, password, host, channel, httpPort, httpsPort }
     }
 
-    async getClient() {
-        if (!this.client) {
-            const { channel, host, username: usernameParent, password: passwordParent } = await this.getDeviceProperties();
-            const { username, password } = this.storageSettings.values;
+    getClient() {
+        if (!this.clientPromise) {
+            this.clientPromise = this.createClient().catch(e => {
+                this.clientPromise = undefined;
+                throw e;
+            });
+        }
 
-            this.client = new ReolinkCameraClient(
-                host,
-                username || usernameParent,
-                password || passwordParent,
-                channel,
-                this.console,
-                true,
-            );
+        return this.clientPromise;
+    }
+
+    private async getConnectionOptions(props: { httpPort?: string | number, httpsPort?: string | number }): Promise<ReolinkConnectionOptions> {
+        const { httpPort, httpsPort } = props;
+        const { protocol, port, caCertificate, certificateFingerprint } = this.storageSettings.values;
+
+        const useHttps = protocol === 'HTTPS' || (protocol !== 'HTTP' && !!httpsPort);
+        const parentPort = useHttps ? httpsPort : httpPort;
+
+        return {
+            protocol: useHttps ? 'https' : 'http',
+            port: Number(port || parentPort) || undefined,
+            caCertificate: caCertificate || undefined,
+            certificateFingerprint: certificateFingerprint || undefined,
+        };
+    }
+
+    private async createClient() {
+        const { channel, host, username: usernameParent, password: passwordParent, httpPort, httpsPort } = await this.getDeviceProperties();
+        const { username, password } = this.storageSettings.values;
+
+        const session = this.plugin.getSession(this.id, {
+            host,
+            username: username || usernameParent,
+            password: password || passwordParent,
+            connection: await this.getConnectionOptions({ httpPort, httpsPort }),
+        });
+        const channelId = await this.resolveChannel(session, channel);
+
+        const client = new ReolinkCameraClient(session, channelId, this.console);
+        try {
+            const timeSettings = await client.loadTimezone();
+            this.getLogger().log(`Camera time settings: ${JSON.stringify(timeSettings)}`);
+            this.storageSettings.values.cameraTimeSettings = timeSettings;
+        } catch (e) {
+            this.getLogger().log('Error reading the camera timezone, using the server one', e.message);
         }
 
+        this.client = client;
+        this.getSearchCache().checkTimezone(this.getTimezoneSignature());
+
         return this.client;
     }
 
+    private resetClient() {
+        this.client = undefined;
+        this.clientPromise = undefined;
+        this.searchCache?.invalidate();
+    }
+
+    /**
+     * Channel set on the mixin, then the one of the camera,
+     * finally the NVR channel having the same name of the camera
+     */
+    private async resolveChannel(session: ReolinkSession, parentChannel?: string | number) {
+        const logger = this.getLogger();
+        const { channel } = this.storageSettings.values;
+
+        if (channel !== undefined && channel !== null && channel !== '') {
+            return Number(channel);
+        }
+
+        if (parentChannel !== undefined && parentChannel !== null && parentChannel !== '') {
+            return Number(parentChannel);
+        }
+
+        try {
+            const { channelNum, channels } = await session.getDeviceInfo();
+            if (channelNum > 1) {
+                const cameraName = this.name?.trim().toLowerCase();
+                const match = channels.find(item => item.name?.trim().toLowerCase() === cameraName);
+
+                if (match) {
+                    logger.log(`Camera mapped to the channel ${match.channel} (${match.name})`);
+                    return match.channel;
+                }
+
+                logger.log(`No channel named ${this.name} found, set the channel manually: ${JSON.stringify(channels.map(item => ({ channel: item.channel, name: item.name })))}`);
+            }
+        } catch (e) {
+            logger.log('Error discovering the channels', e.message);
+        }
+
+        return 0;
+    }
+
+    async getWebhookUrl(webhook: string, params: Record<string, any> = {}) {
+        const { endpoint, parameters } = await this.plugin.getWebhookEndpoint();
+        const query = this.plugin.getSignedWebhookQuery(webhook, {
+            ...params,
+            deviceId: this.id,
+        });
+
+        return `${endpoint}${webhook}?${query}${parameters ? `&${parameters}` : ''}`;
+    }
+
     async getVideoclipWebhookUrls(videoclipPath: string) {
-        const cloudEndpoint = await endpointManager.getCloudEndpoint(undefined, { public: true });
-        const [endpoint, parameters] = cloudEndpoint.split('?') ?? '';
         const params = {
-            deviceId: this.id,
-            videoclipPath,
+            clipId: this.getClipId(videoclipPath),
+        };
+
+        const isHls = this.storageSettings.values.playbackFormat === 'HLS';
+        const videoclipUrl = await this.getWebhookUrl(isHls ? 'hls' : 'videoclip', params);
+        const thumbnailUrl = await this.getWebhookUrl('thumbnail', params);
+
+        return { videoclipUrl, thumbnailUrl, mimeType: isHls ? 'application/vnd.apple.mpegurl' : 'video/mp4' };
+    }
+
+    private getClipId(videoclipPath: string) {
+        const clipId = getClipId(this.plugin.getWebhookSecret(), videoclipPath);
+        this.clipIds.set(clipId, videoclipPath);
+
+        return clipId;
+    }
+
+    /**
+     * Drops the data kept in memory for a removed clip
+     */
+    private forgetVideoclip(videoclipPath: string) {
+        this.clipIds.delete(getClipId(this.plugin.getWebhookSecret(), videoclipPath));
+        this.videoclipCodecs.delete(videoclipPath);
+    }
+
+    /**
+     * Videoclip of an opaque ID, only the clips known to the plugin can be resolved
+     */
+    resolveClipId(clipId: string) {
+        if (!this.clipIds.has(clipId)) {
+            // URLs survive the restarts, hash again the known clips
+            const knownPaths = [
+                ...(this.clipIndex?.entries ?? []).map(entry => entry.fullPath),
+                ...Object.keys(this.archiver?.manifest ?? {}),
+                ...(this.searchCache?.getVideoclipNames() ?? []),
+            ];
+            for (const knownPath of knownPaths) {
+                this.getClipId(knownPath);
+            }
+        }
+
+        return this.clipIds.get(clipId);
+    }
+
+    getTimeConverter() {
+        if (this.client) {
+            return this.client.timeConverter;
+        }
+
+        // The client is not created while a battery camera sleeps
+        const { cameraTimeSettings } = this.storageSettings.values;
+        return cameraTimeSettings ? new CameraTimezone(cameraTimeSettings) : localTimeConverter;
+    }
+
+    private getTimezoneSignature() {
+        const timeConverter = this.getTimeConverter();
+        return timeConverter instanceof CameraTimezone ? JSON.stringify(timeConverter.settings) : 'local';
+    }
+
+    /**
+     * Wall clock of the camera to timestamp, dst disambiguates the hour repeated when the DST ends
+     */
+    private processDate(date: VideoSearchTime, dst?: boolean) {
+        return this.getTimeConverter().toTimestamp(date, dst);
+    }
+
+    private async getFtpVideoclips(options: VideoClipOptions) {
+        const videoclips: VideoClip[] = [];
+
+        const items = this.clipIndex?.getRange(options.startTime, options.endTime) ?? [];
+        for (const item of items) {
+            const timestamp = item.timestamp;
+
+            if (item.type === 'video' && !item.missingMoov) {
+                const durationInMs = item.durationMs;
+                const videoclipPath = item.fullPath;
+
+                const event = 'motion';
+                const { thumbnailUrl, videoclipUrl } = await this.getVideoclipWebhookUrls(videoclipPath);
+                videoclips.push({
+                    id: videoclipPath,
+                    startTime: timestamp,
+                    duration: durationInMs ? Math.round(durationInMs) : undefined,
+                    videoId: videoclipPath,
+                    thumbnailId: videoclipPath,
+                    detectionClasses: [event],
+                    event,
+                    description: event,
+                    resources: {
+                        thumbnail: {
+                            href: thumbnailUrl
+                        },
+                        video: {
+                            href: videoclipUrl
+                        }
+                    }
+                });
+            } else if (item.type === 'image' && !this.clipIndex.getPairedVideo(item)) {
+                // Snapshots without a video, i.e. the camera uploads only images
+                const event = 'motion';
+                const { thumbnailUrl } = await this.getVideoclipWebhookUrls(item.fullPath);
+                videoclips.push({
+                    id: item.fullPath,
+                    startTime: timestamp,
+                    thumbnailId: item.fullPath,
+                    detectionClasses: [event],
+                    event,
+                    description: 'snapshot',
+                    resources: {
+                        thumbnail: {
+                            href: thumbnailUrl
+                        },
+                    }
+                });
+            }
         }
 
-        const videoclipUrl = `${endpoint}videoclip?params=${JSON.stringify(params)}&${parameters}`;
-        const thumbnailUrl = `${endpoint}thumbnail?params=${JSON.stringify(params)}&${parameters}`;
+        return videoclips;
+    }
+
+    /**
+     * Image uploaded to the FTP folder to use as thumbnail, the clip itself or the one paired with the video
+     */
+    private getFtpThumbnailImage(thumbnailId: string) {
+        const entry = this.clipIndex?.get(thumbnailId);
+        if (!entry) {
+            return;
+        }
 
-        return { videoclipUrl, thumbnailUrl };
+        const image = entry.type === 'image' ? entry : this.clipIndex.getPairedImage(entry);
+        if (image && isPathInside(this.storageSettings.values.ftpFolder, image.fullPath)) {
+            return image.fullPath;
+        }
     }
 
-    private processDate(date: VideoSearchTime) {
-        let timeDate = new Date();
+    getSearchCache() {
+        if (!this.searchCache) {
+            const { searchCacheFile } = getFolderPaths(this.id, this.plugin.storageSettings.values.downloadFolder);
 
-        timeDate.setFullYear(date.year);
-        timeDate.setMonth(date.mon - 1);
-        timeDate.setDate(date.day);
-        timeDate.setHours(date.hour);
-        timeDate.setMinutes(date.min);
-        timeDate.setSeconds(date.sec);
+            this.searchCache = new SearchResultsCache({
+                cacheFile: searchCacheFile,
+                ttlMs: this.storageSettings.values.searchCacheTtlSeconds * 1000,
+                timeConverter: () => this.getTimeConverter(),
+                console: this.getLogger(),
+            });
+        }
 
-        return timeDate.getTime();
+        return this.searchCache;
     }
 
-    async getVideoClips(options?: VideoClipOptions, streamType: VideoSearchType = 'main') {
+    /**
+     * Formatting or replacing the SD card invalidates the cached searches
+     */
+    private async checkStorageChanges() {
         const logger = this.getLogger();
+        const now = Date.now();
+        if (this.lastStorageCheck && now - this.lastStorageCheck < 1000 * 60 * 10) {
+            return;
+        }
+        this.lastStorageCheck = now;
+
         try {
-            const { ftp } = this.storageSettings.values;
-
-            const videoclips: VideoClip[] = [];
-
-            if (ftp) {
-                for (const item of this.ftpScanData) {
-                    const timestamp = this.processDate(item.time);
-
-                    if (item.type === 'video' && timestamp >= options.startTime && timestamp <= options.endTime) {
-                        // Check if possible to fetch it with decent performances
-                        const durationInMs = 30;
-                        const videoclipPath = item.fullPath;
-
-                        const event = 'motion';
-                        const { thumbnailUrl, videoclipUrl } = await this.getVideoclipWebhookUrls(videoclipPath);
-                        videoclips.push({
-                            id: videoclipPath,
-                            startTime: timestamp,
-                            // duration: Math.round(durationInMs),
-                            videoId: videoclipPath,
-                            thumbnailId: videoclipPath,
-                            detectionClasses: [event],
-                            event,
-                            description: event,
-                            resources: {
-                                thumbnail: {
-                                    href: thumbnailUrl
-                                },
-                                video: {
-                                    href: videoclipUrl
-                                }
-                            }
-                        });
+            const api = await this.getClient();
+            const hddInfo = await api.getHddInfo();
+
+            this.getSearchCache().checkStorageFingerprint({
+                capacity: hddInfo.reduce((tot, hdd) => tot + hdd.capacity, 0),
+                usedSpace: hddInfo.reduce((tot, hdd) => tot + hdd.capacity - hdd.size, 0),
+            });
+        } catch (e) {
+            logger.debug('Error checking the storage info', e.message);
+        }
+    }
+
+    get isBatteryCamera() {
+        return this.mixinDeviceInterfaces.includes(ScryptedInterface.Battery);
+    }
+
+    /**
+     * Battery cameras are queried only when awake and charged enough, background work can also
+     * wake them while charging. The state is the one of the camera device, polling it would wake the camera
+     */
+    async canReachCamera(background?: boolean) {
+        if (!this.isBatteryCamera) {
+            return true;
+        }
+
+        const logger = this.getLogger();
+        const interfaces = this.mixinDeviceInterfaces;
+        const sleep = interfaces.includes(ScryptedInterface.Sleep) ? !!this.mixinDevice.sleeping : undefined;
+        const batteryPercent: number = this.mixinDevice.batteryLevel;
+        const charging = interfaces.includes(ScryptedInterface.Charger) ?
+            [ChargeState.Charging, ChargeState.Trickle].includes(this.mixinDevice.chargeState) :
+            undefined;
+        const { minBatteryPercent } = this.storageSettings.values;
+
+        const batteryOk = charging || batteryPercent === undefined || batteryPercent === null || batteryPercent >= minBatteryPercent;
+        const awake = !sleep || (background && charging);
+
+        if (!batteryOk || !awake) {
+            logger.debug(`Camera not reachable: ${JSON.stringify({ batteryPercent, sleep, charging, background })}`);
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Searches the clips on the camera, the range must be within a single day.
+     * Cached results are returned when the camera can't be reached
+     */
+    async searchCameraVideoclips(startTime: number, endTime: number, background?: boolean) {
+        // The client is not created for a sleeping camera, the login would wake it
+        const cacheOnly = !await this.canReachCamera(background);
+        const api = cacheOnly ? undefined : await this.getClient();
+        if (!cacheOnly) {
+            await this.checkStorageChanges();
+        }
+
+        const results = await this.getSearchCache().search({
+            startTime,
+            endTime,
+            cacheOnly,
+            fetchDay: (dayStart, dayEnd) => api.searchVideoClips({ startTime: dayStart, endTime: dayEnd }),
+        });
+
+        if (!cacheOnly) {
+            this.enqueueRecentThumbnails(results.map(result => ({
+                path: result.name,
+                timestamp: this.processDate(result.StartTime, hasDstMarker(result.name)),
+            })));
+        }
+
+        return results;
+    }
+
+    private async getCameraVideoclips(options: VideoClipOptions) {
+        const logger = this.getLogger();
+        const videoclips: VideoClip[] = [];
+
+        const dateRanges = splitDateRangeByDay(options.startTime, options.endTime, this.getTimeConverter());
+
+        let allSearchedElements: VideoSearchResult[] = [];
+
+        for (const dateRange of dateRanges) {
+            try {
+                const response = await this.searchCameraVideoclips(dateRange.start, dateRange.end);
+                allSearchedElements.push(...response);
+            } catch (e) {
+                logger.log(`Error searching videoclips: ${JSON.stringify(dateRange)}`, e.message);
+            }
+        }
+
+        logger.log(`Videoclips found:`, JSON.stringify({
+            allSearchedElements,
+            dateRanges,
+            token: this.client?.parameters.token
+        }));
+
+        const removedVideoclips: string[] = this.storageSettings.values.removedVideoclips;
+
+        for (const searchElement of allSearchedElements) {
+            const videoclipPath = searchElement.name;
+            if (removedVideoclips.includes(videoclipPath)) {
+                continue;
+            }
+
+            try {
+                const dst = hasDstMarker(videoclipPath);
+                const startTime = this.processDate(searchElement.StartTime, dst);
+                const entdTime = this.processDate(searchElement.EndTime, dst);
+
+                const durationInMs = entdTime - startTime;
+                // Unknown filename formats are still listed, without the detection flags
+                const detectionClasses = parseVideoclipName(videoclipPath)?.detectionClasses ?? ['motion'];
+
+                const event = 'motion';
+                const { thumbnailUrl, videoclipUrl } = await this.getVideoclipWebhookUrls(videoclipPath);
+                videoclips.push({
+                    id: videoclipPath,
+                    startTime,
+                    duration: Math.round(durationInMs),
+                    videoId: videoclipPath,
+                    thumbnailId: videoclipPath,
+                    detectionClasses,
+                    event,
+                    description: pluginId,
+                    resources: {
+                        thumbnail: {
+                            href: thumbnailUrl
+                        },
+                        video: {
+                            href: videoclipUrl
+                        }
                     }
-                }
-                logger.log(`Videoclips found:`, JSON.stringify({ videoclips }));
-            } else {
-                const api = await this.getClient();
+                });
+            } catch (e) {
+                logger.log(`error parsing videoclip ${videoclipPath}: ${JSON.stringify(searchElement)}`, e);
+            }
+        }
 
-                const dateRanges = splitDateRangeByDay(options.startTime, options.endTime);
+        // Archived clips are still served once the camera rotated them out of the SD card
+        const listedNames = new Set(videoclips.map(clip => clip.videoId));
+        const listedStartTimes = new Set(videoclips.map(clip => clip.startTime));
+        const archivedVideoclips = Object.values(this.archiver?.manifest ?? {})
+            .filter(entry => entry.timestamp >= options.startTime && entry.timestamp <= options.endTime)
+            .filter(entry => !removedVideoclips.includes(entry.name))
+            .filter(entry => !listedNames.has(entry.name) && !listedStartTimes.has(entry.timestamp));
 
-                let allSearchedElements: VideoSearchResult[] = [];
+        for (const entry of archivedVideoclips) {
+            try {
+                const { thumbnailUrl, videoclipUrl } = await this.getVideoclipWebhookUrls(entry.name);
+                videoclips.push({
+                    id: entry.name,
+                    startTime: entry.timestamp,
+                    duration: Math.round(entry.endTimestamp - entry.timestamp),
+                    videoId: entry.name,
+                    thumbnailId: entry.name,
+                    detectionClasses: entry.detectionClasses?.length ? entry.detectionClasses : ['motion'],
+                    event: 'motion',
+                    description: pluginId,
+                    resources: {
+                        thumbnail: {
+                            href: thumbnailUrl
+                        },
+                        video: {
+                            href: videoclipUrl
+                        }
+                    }
+                });
+            } catch (e) {
+                logger.log(`error listing the archived videoclip ${entry.name}`, e);
+            }
+        }
 
-                for (const dateRange of dateRanges) {
-                    const response = await api.getVideoClips({ startTime: dateRange.start, endTime: dateRange.end });
-                    allSearchedElements.push(...response);
-                }
+        if (archivedVideoclips.length) {
+            logger.log(`Archived videoclips not on the camera: ${archivedVideoclips.length}`);
+        }
+
+        return videoclips.sort((a, b) => a.startTime - b.startTime);
+    }
+
+    async getVideoClips(options?: VideoClipOptions, streamType: VideoSearchType = 'main') {
+        const logger = this.getLogger();
+        try {
+            const { ftp, hybrid } = this.storageSettings.values;
+
+            let videoclips: VideoClip[] = [];
 
+            if (ftp && hybrid) {
+                const [ftpVideoclips, cameraVideoclips] = await Promise.all([
+                    this.getFtpVideoclips(options),
+                    this.getCameraVideoclips(options).catch(e => {
+                        logger.log('Camera not reachable, using only the FTP videoclips', e.message);
+                        return [] as VideoClip[];
+                    }),
+                ]);
+
+                videoclips = mergeVideoclips(ftpVideoclips, cameraVideoclips);
                 logger.log(`Videoclips found:`, JSON.stringify({
-                    allSearchedElements,
-                    dateRanges,
-                    token: api.parameters.token
+                    ftp: ftpVideoclips.length,
+                    camera: cameraVideoclips.length,
+                    merged: videoclips.length,
                 }));
-
-                for (const searchElement of allSearchedElements) {
-                    const videoclipPath = searchElement.name;
-                    try {
-                        const startTime = this.processDate(searchElement.StartTime);
-                        const entdTime = this.processDate(searchElement.EndTime);
-
-                        const durationInMs = entdTime - startTime;
-                        const { detectionClasses } = parseVideoclipName(videoclipPath)
-
-                        const event = 'motion';
-                        const { thumbnailUrl, videoclipUrl } = await this.getVideoclipWebhookUrls(videoclipPath);
-                        videoclips.push({
-                            id: videoclipPath,
-                            startTime,
-                            duration: Math.round(durationInMs),
-                            videoId: videoclipPath,
-                            thumbnailId: videoclipPath,
-                            detectionClasses,
-                            event,
-                            description: pluginId,
-                            resources: {
-                                thumbnail: {
-                                    href: thumbnailUrl
-                                },
-                                video: {
-                                    href: videoclipUrl
-                                }
-                            }
-                        });
-                    } catch (e) {
-                        logger.log(`error parsing videoclip ${videoclipPath}: ${JSON.stringify(searchElement)}`, e);
-                    }
-                }
+            } else if (ftp) {
+                videoclips = await this.getFtpVideoclips(options);
+                logger.log(`Videoclips found:`, JSON.stringify({ videoclips }));
+            } else {
+                videoclips = await this.getCameraVideoclips(options);
             }
 
             return videoclips;
@@ -443,18 +1139,265 @@ export default class ReolinkVideoclipssMixin extends SettingsMixinDeviceBase<any
         }
     }
 
+    private getFtpRecordingDays(year: number, month: number) {
+        const timeConverter = this.getTimeConverter();
+        const monthStart = timeConverter.toTimestamp({ year, mon: month, day: 1, hour: 0, min: 0, sec: 0 });
+        const monthEnd = timeConverter.toTimestamp({ year: month === 12 ? year + 1 : year, mon: month % 12 + 1, day: 1, hour: 0, min: 0, sec: 0 }) - 1;
+
+        const days = new Set<number>();
+        for (const item of this.clipIndex?.getRange(monthStart, monthEnd) ?? []) {
+            if (item.type === 'video' && !item.missingMoov) {
+                days.add(timeConverter.toSearchTime(item.timestamp).day);
+            }
+        }
+
+        return days;
+    }
+
+    /**
+     * Days of the month having recordings, month is 1 based
+     */
+    async getRecordingCalendar(year: number, month: number) {
+        const logger = this.getLogger();
+        const { ftp, hybrid } = this.storageSettings.values;
+
+        let days = new Set<number>();
+        if (ftp) {
+            days = this.getFtpRecordingDays(year, month);
+        }
+
+        if (!ftp || hybrid) {
+            try {
+                const cameraDays = await this.canReachCamera() ?
+                    await (await this.getClient()).getRecordingDays(year, month) :
+                    this.getSearchCache().getCachedDays(year, month);
+                for (const day of cameraDays) {
+                    days.add(day);
+                }
+            } catch (e) {
+                if (!ftp) {
+                    throw e;
+                }
+                logger.log('Camera not reachable, using only the FTP calendar', e.message);
+            }
+        }
+
+        return {
+            year,
+            month,
+            days: Array.from(days).sort((a, b) => a - b),
+        };
+    }
+
+    isFtpVideoclip(videoclipId: string) {
+        const { ftp, ftpFolder } = this.storageSettings.values;
+
+        return !!ftp && !!ftpFolder && path.resolve(videoclipId).startsWith(path.resolve(ftpFolder) + path.sep);
+    }
+
+    /**
+     * Path of the videoclip on the local storage, either in the FTP folder or archived.
+     * Archived clips not matching their hash are removed and served from the camera
+     */
+    async getLocalVideoclipPath(videoclipId: string) {
+        if (this.isFtpVideoclip(videoclipId)) {
+            return isPathInside(this.storageSettings.values.ftpFolder, videoclipId) ? videoclipId : undefined;
+        }
+
+        const archiver = this.archiver;
+        const archivedPath = archiver?.get(videoclipId)?.localPath;
+        if (archivedPath && isPathInside(archiver.options.folder, archivedPath) && await archiver.verify(videoclipId)) {
+            return archivedPath;
+        }
+    }
+
+    private getTranscoder() {
+        if (!this.transcoder) {
+            const { transcodeFolder } = getFolderPaths(this.id, this.plugin.storageSettings.values.downloadFolder);
+            this.transcoder = new VideoclipsTranscoder({
+                folder: transcodeFolder,
+                console: this.getLogger(),
+                maxSpaceInGb: this.storageSettings.values.transcodeMaxSpaceInGb,
+            });
+        }
+
+        return this.transcoder;
+    }
+
+    /**
+     * Local clips are read from their sample description, the ones on the camera are probed by FFmpeg
+     * through the download URL, in a slot of the camera
+     */
+    private async getVideoclipCodec(videoclipPath: string, input: string, api?: ReolinkCameraClient) {
+        if (!this.videoclipCodecs.has(videoclipPath)) {
+            const indexEntry = this.clipIndex?.get(videoclipPath);
+            const metadata = indexEntry?.codec ? indexEntry : await (api ?
+                api.session.scheduler.run((signal) => probeMetadata(input, signal), { priority: 'playback', label: 'Probe' }) :
+                getVideoclipMetadata(input));
+            this.videoclipCodecs.set(videoclipPath, metadata.codec);
+        }
+
+        return this.videoclipCodecs.get(videoclipPath);
+    }
+
+    /**
+     * Clip transcoded to H.264, cached or being transcoded. Undefined when the transcoding is disabled,
+     * the clip plays in the browsers as it is, or a new transcoding is not to be started, i.e. for HEAD requests
+     */
+    async getTranscodedVideoclip(videoclipPath: string, start = true): Promise<{ cachedPath?: string, job?: TranscodingJob }> {
+        if (!this.storageSettings.values.transcodeVideoclips) {
+            return;
+        }
+
+        const logger = this.getLogger();
+        const transcoder = this.getTranscoder();
+        const cachedPath = await transcoder.getCached(videoclipPath);
+        if (cachedPath) {
+            return { cachedPath };
+        }
+
+        const pendingJob = transcoder.getPending(videoclipPath);
+        if (pendingJob || !start) {
+            return pendingJob ? { job: pendingJob } : undefined;
+        }
+
+        // I.e. the camera certificate is pinned, the clip is proxied as it is
+        const ffmpegInput = await this.getFfmpegInput(videoclipPath, 'download').catch(e => {
+            logger.log(`Videoclip ${videoclipPath} not transcoded`, e.message);
+            return undefined;
+        });
+        if (!ffmpegInput) {
+            return;
+        }
+
+        const { input, api } = ffmpegInput;
+        const codec = await this.getVideoclipCodec(videoclipPath, input, api).catch(e => {
+            logger.log(`Error probing the codec of ${videoclipPath}, serving it as it is`, e.message);
+            return undefined as string;
+        });
+        if (!codec || browserVideoCodecs.includes(codec)) {
+            return;
+        }
+
+        logger.log(`Transcoding videoclip ${videoclipPath} from ${codec}`);
+        const job = transcoder.transcode(videoclipPath, input, this.getFfmpegSchedule('Transcoding', api));
+
+        return { job };
+    }
+
+    /**
+     * Input of FFmpeg, the local file or the URL of the clip on the camera
+     */
+    private async getFfmpegInput(videoclipPath: string, remoteSource: 'download' | 'playback') {
+        const localPath = await this.getLocalVideoclipPath(videoclipPath);
+        if (localPath) {
+            return { input: localPath };
+        }
+
+        const { api, urls: { downloadPathWithHost, playbackPathWithHost } } = await this.getFfmpegVideoclipUrls(videoclipPath);
+
+        return {
+            input: remoteSource === 'download' ? downloadPathWithHost : playbackPathWithHost,
+            api,
+        };
+    }
+
+    /**
+     * Long FFmpeg runs take a slot of the plugin FFmpeg processes. The ones reading
+     * the clip from the camera also hold a slot of the camera for the whole run
+     */
+    private getFfmpegSchedule(label: string, api?: ReolinkCameraClient) {
+        return <T>(task: (signal?: AbortSignal) => Promise<T>) => this.plugin.getThumbnailScheduler().run(
+            (signal) => api ?
+                api.session.scheduler.run(task, { priority: 'playback', label, timeoutMs: 0, longRunning: true }) :
+                task(signal),
+            { priority: 'playback', label, longRunning: true },
+        );
+    }
+
+    /**
+     * URLs of the clip on the camera to be read by FFmpeg. FFmpeg can't check a pinned certificate,
+     * the token would be sent to any host answering, so these clips are not processed
+     */
+    private async getFfmpegVideoclipUrls(videoclipPath: string) {
+        const api = await this.getClient();
+        if (api.session.isPinned) {
+            throw new Error(`Videoclip ${videoclipPath} not processed by FFmpeg, the certificate of the camera is pinned`);
+        }
+
+        // The URL embeds the token, it must be valid for the whole FFmpeg run
+        await api.login();
+        const urls = await api.getVideoClipUrl(videoclipPath, this.id);
+
+        return { api, urls };
+    }
+
+    private getHlsPackager() {
+        if (!this.hlsPackager) {
+            const { hlsFolder } = getFolderPaths(this.id, this.plugin.storageSettings.values.downloadFolder);
+            this.hlsPackager = new HlsPackager({
+                folder: hlsFolder,
+                console: this.getLogger(),
+                ttlMs: 1000 * 60 * 60 * (this.storageSettings.values.hlsCacheHours ?? 24),
+            });
+        }
+
+        return this.hlsPackager;
+    }
+
+    /**
+     * HLS playlist of the clip, the segments point to the hls webhook
+     */
+    async getHlsPlaylist(videoclipPath: string) {
+        const logger = this.getLogger();
+        const packager = this.getHlsPackager();
+
+        if (!await packager.isAvailable(videoclipPath)) {
+            const { input, api } = await this.getFfmpegInput(videoclipPath, 'playback');
+            const codec = await this.getVideoclipCodec(videoclipPath, input, api).catch(e => {
+                logger.log(`Error probing the codec of ${videoclipPath}, packaging it as it is`, e.message);
+                return undefined as string;
+            });
+
+            logger.log(`Packaging videoclip ${videoclipPath} to HLS: ${JSON.stringify({ codec })}`);
+            packager.start(videoclipPath, {
+                input,
+                // Players support only H.264 in the TS segments
+                transcode: !!codec && !browserVideoCodecs.includes(codec),
+                schedule: this.getFfmpegSchedule('HLS packaging', api),
+            });
+        }
+
+        const playlist = await packager.getPlaylist(videoclipPath);
+        const clipId = this.getClipId(videoclipPath);
+        const { parameters } = await this.plugin.getWebhookEndpoint();
+        // Relative to the playlist, served by the same webhook
+        const getSegmentUri = (segment: string) => {
+            const query = this.plugin.getSignedWebhookQuery('hls', { clipId, segment, deviceId: this.id });
+            return `hls?${query}${parameters ? `&${parameters}` : ''}`;
+        };
+
+        return playlist.split('\n')
+            .map(line => isHlsSegmentName(line) ? getSegmentUri(line) : line)
+            .join('\n');
+    }
+
+    getHlsSegmentPath(videoclipPath: string, segment: string) {
+        return this.getHlsPackager().getSegmentPath(videoclipPath, segment);
+    }
+
     async getVideoclipParams(videoclipId: string) {
-        const { ftp } = this.storageSettings.values;
         const { thumbnailFolder } = getFolderPaths(this.id, this.plugin.storageSettings.values.downloadFolder);
         const filename = `${videoclipId.split('/').pop().split('.')[0]}`;
 
-        let videoclipUrl: string;
-        if (ftp) {
-            videoclipUrl = videoclipId;
-        } else {
-            const api = await this.getClient();
-            const { playbackPathWithHost } = await api.getVideoClipUrl(videoclipId, this.id);
-            videoclipUrl = playbackPathWithHost;
+        let videoclipUrl = await this.getLocalVideoclipPath(videoclipId);
+        if (!videoclipUrl && this.isFtpVideoclip(videoclipId)) {
+            throw new Error(`Videoclip ${videoclipId} not found in the FTP folder`);
+        }
+
+        if (!videoclipUrl) {
+            const { urls } = await this.getFfmpegVideoclipUrls(videoclipId);
+            videoclipUrl = urls.playbackPathWithHost;
         }
 
         return { videoclipUrl, filename, thumbnailFolder };
@@ -463,34 +1406,265 @@ export default class ReolinkVideoclipssMixin extends SettingsMixinDeviceBase<any
     async getVideoClip(videoId: string): Promise<MediaObject> {
         const logger = this.getLogger();
         logger.log('Fetching videoId ', videoId);
-        const { videoclipUrl } = await this.getVideoclipWebhookUrls(videoId);
-        const videoclipMo = await sdk.mediaManager.createMediaObject(videoclipUrl, 'video/mp4');
+        const { videoclipUrl, mimeType } = await this.getVideoclipWebhookUrls(videoId);
+        const videoclipMo = await sdk.mediaManager.createMediaObject(videoclipUrl, mimeType);
 
         return videoclipMo;
     }
 
+    private getVideoclipDurationMs(videoclipPath: string) {
+        const indexEntry = this.clipIndex?.get(videoclipPath);
+        if (indexEntry?.durationMs) {
+            return indexEntry.durationMs;
+        }
+
+        const archived = this.archiver?.get(videoclipPath);
+        if (archived?.endTimestamp) {
+            return archived.endTimestamp - archived.timestamp;
+        }
+
+        const searchResult = this.searchCache?.getVideoclip(videoclipPath);
+        if (searchResult) {
+            return this.processDate(searchResult.EndTime) - this.processDate(searchResult.StartTime);
+        }
+    }
+
     async getVideoClipThumbnail(thumbnailId: string, options?: VideoClipThumbnailOptions): Promise<MediaObject> {
         const logger = this.getLogger();
         logger.log('Fetching thumbnailId ', thumbnailId);
-        const { filename, videoclipUrl, thumbnailFolder } = await this.getVideoclipParams(thumbnailId);
 
-        const { thumbnailMo } = await getThumbnailMediaObject({
+        return this.getThumbnail(thumbnailId, options, 'playback');
+    }
+
+    /**
+     * Generations are queued by priority, the ones requested by the timeline go before the pre-generation
+     */
+    private async getThumbnail(thumbnailId: string, options: VideoClipThumbnailOptions, priority: RequestPriority) {
+        const logger = this.getLogger();
+
+        const imagePath = this.getFtpThumbnailImage(thumbnailId);
+        if (imagePath) {
+            return getImageMediaObject({ imagePath, aspectRatio: options?.aspectRatio, console: logger });
+        }
+
+        const { thumbnailPosition, thumbnailWidth } = this.storageSettings.values;
+        const { thumbnailFolder } = getFolderPaths(this.id, this.plugin.storageSettings.values.downloadFolder);
+        const filename = thumbnailId.split('/').pop().split('.')[0];
+
+        const getThumbnail = (videoclipUrl: string, signal?: AbortSignal) => getThumbnailMediaObject({
             filename,
             thumbnailFolder,
             videoclipUrl,
             console: this.console,
-        })
+            position: parseThumbnailPosition(thumbnailPosition),
+            durationMs: this.getVideoclipDurationMs(thumbnailId),
+            width: thumbnailWidth,
+            aspectRatio: options?.aspectRatio,
+            signal,
+        });
+
+        // Thumbnails already generated don't need the clip, the camera is not contacted
+        const thumbnailPath = getThumbnailPath(thumbnailFolder, filename);
+        if (fs.existsSync(thumbnailPath) && fs.statSync(thumbnailPath).size) {
+            return (await getThumbnail(undefined)).thumbnailMo;
+        }
+
+        // Thumbnails pulled from the camera must not starve the playback and searches
+        const isRemote = !await this.getLocalVideoclipPath(thumbnailId);
+        if (isRemote && !await this.canReachCamera(true)) {
+            throw new Error(`Thumbnail of ${thumbnailId} deferred, the camera is not available`);
+        }
+
+        const { thumbnailMo } = await this.plugin.getThumbnailScheduler().run(async (signal) => {
+            // The URL is built once started, queued thumbnails could wait longer than the token.
+            // The login happens before taking the camera slot, it needs one too
+            const { videoclipUrl } = await this.getVideoclipParams(thumbnailId);
+            if (!isRemote) {
+                return getThumbnail(videoclipUrl, signal);
+            }
+
+            const api = await this.getClient();
+            return api.session.scheduler.run(
+                (cameraSignal) => getThumbnail(videoclipUrl, cameraSignal),
+                { priority: 'background', label: 'Thumbnail' },
+            );
+        }, { priority, label: 'Thumbnail' });
+        this.applyThumbnailsRetention().catch(e => logger.log('Error applying the thumbnails retention', e));
 
         return thumbnailMo;
     }
 
-    removeVideoClips(...videoClipIds: string[]): Promise<void> {
-        throw new Error("Method not implemented.");
+    /**
+     * Thumbnails are generated in background for the recent clips without one
+     */
+    private enqueueThumbnails(videoclipPaths: string[]) {
+        const logger = this.getLogger();
+        const { thumbnailFolder } = getFolderPaths(this.id, this.plugin.storageSettings.values.downloadFolder);
+
+        for (const videoclipPath of videoclipPaths) {
+            const filename = videoclipPath.split('/').pop().split('.')[0];
+            if (
+                this.queuedThumbnails.has(videoclipPath) ||
+                fs.existsSync(getThumbnailPath(thumbnailFolder, filename)) ||
+                this.getFtpThumbnailImage(videoclipPath)
+            ) {
+                continue;
+            }
+
+            this.queuedThumbnails.add(videoclipPath);
+            this.getThumbnail(videoclipPath, undefined, 'background')
+                .catch(e => logger.debug(`Thumbnail of ${videoclipPath} not pre-generated`, e.message))
+                .finally(() => this.queuedThumbnails.delete(videoclipPath));
+        }
+    }
+
+    private enqueueRecentThumbnails(videoclips: { path: string, timestamp: number }[]) {
+        if (!this.storageSettings.values.pregenerateThumbnails || this.killed) {
+            return;
+        }
+
+        const minTimestamp = Date.now() - pregenerateLookbackMs;
+        this.enqueueThumbnails(videoclips.filter(videoclip => videoclip.timestamp > minTimestamp).map(videoclip => videoclip.path));
+    }
+
+    /**
+     * Removes the least recently used thumbnails above the space or age limits
+     */
+    private async applyThumbnailsRetention(force?: boolean) {
+        const logger = this.getLogger();
+        const now = Date.now();
+        if (!force && this.lastThumbnailsRetention && now - this.lastThumbnailsRetention < thumbnailsRetentionIntervalMs) {
+            return;
+        }
+        this.lastThumbnailsRetention = now;
+
+        const { thumbnailsMaxSpaceInMb, thumbnailsMaxDays } = this.storageSettings.values;
+        const { thumbnailFolder } = getFolderPaths(this.id, this.plugin.storageSettings.values.downloadFolder);
+
+        const files: RetentionFile[] = [];
+        for (const filename of await fs.promises.readdir(thumbnailFolder)) {
+            if (!filename.endsWith('.jpg')) {
+                continue;
+            }
+
+            const fullPath = path.join(thumbnailFolder, filename);
+            const stat = await fs.promises.stat(fullPath).catch(() => undefined as fs.Stats);
+            stat && files.push({ fullPath, timestamp: stat.mtimeMs, size: stat.size });
+        }
+
+        const toDelete = getFilesToDelete({
+            files,
+            policy: {
+                maxSpaceInGb: thumbnailsMaxSpaceInMb / 1024,
+                maxDays: thumbnailsMaxDays,
+            },
+        });
+        for (const { file } of toDelete) {
+            await fs.promises.rm(file.fullPath, { force: true });
+        }
+
+        if (toDelete.length) {
+            logger.log(`Thumbnails retention removed ${toDelete.length} thumbnails`);
+        }
+    }
+
+    private async clearThumbnails() {
+        const logger = this.getLogger();
+        const { thumbnailFolder } = getFolderPaths(this.id, this.plugin.storageSettings.values.downloadFolder);
+
+        for (const filename of await fs.promises.readdir(thumbnailFolder)) {
+            await fs.promises.rm(path.join(thumbnailFolder, filename), { force: true, maxRetries: 10 });
+        }
+        logger.log(`Thumbnails cleared`);
+    }
+
+    /**
+     * Generates again the thumbnails of the most recent clips, i.e. after changing the thumbnail settings
+     */
+    private async regenerateThumbnails() {
+        const logger = this.getLogger();
+        await this.clearThumbnails();
+
+        const videoclips = new Map<string, number>();
+        for (const entry of this.clipIndex?.entries ?? []) {
+            if (entry.type === 'video' && !entry.missingMoov) {
+                videoclips.set(entry.fullPath, entry.timestamp);
+            }
+        }
+        for (const entry of Object.values(this.archiver?.manifest ?? {})) {
+            videoclips.set(entry.name, entry.timestamp);
+        }
+        for (const day of Object.values(this.searchCache?.days ?? {})) {
+            for (const result of day.results) {
+                videoclips.set(result.name, this.processDate(result.StartTime, hasDstMarker(result.name)));
+            }
+        }
+
+        const videoclipPaths = Array.from(videoclips.entries())
+            .sort(([, a], [, b]) => b - a)
+            .slice(0, regenerateMaxThumbnails)
+            .map(([videoclipPath]) => videoclipPath);
+
+        logger.log(`Regenerating ${videoclipPaths.length} thumbnails`);
+        this.enqueueThumbnails(videoclipPaths);
+    }
+
+    async removeVideoClips(...videoClipIds: string[]): Promise<void> {
+        const logger = this.getLogger();
+        const { removedVideoclips } = this.storageSettings.values;
+        const { thumbnailFolder } = getFolderPaths(this.id, this.plugin.storageSettings.values.downloadFolder);
+
+        const removedIds: string[] = [];
+        for (const videoclipId of videoClipIds) {
+            if (this.isFtpVideoclip(videoclipId)) {
+                const entry = this.clipIndex?.get(videoclipId);
+                const pairedImage = entry?.type === 'video' ? this.clipIndex.getPairedImage(entry) : undefined;
+                if (pairedImage) {
+                    await this.deleteFtpVideoclip(pairedImage.fullPath);
+                }
+
+                if (await this.deleteFtpVideoclip(videoclipId)) {
+                    logger.log(`Deleted videoclip: ${videoclipId}`);
+                }
+            } else {
+                await this.archiver?.remove(videoclipId);
+                const filename = videoclipId.split('/').pop().split('.')[0];
+                await fs.promises.rm(getThumbnailPath(thumbnailFolder, filename), { force: true, maxRetries: 10 })
+                    .catch(e => logger.log(`Error removing thumbnail of ${videoclipId}`, e));
+                removedIds.push(videoclipId);
+                this.forgetVideoclip(videoclipId);
+            }
+        }
+
+        if (removedIds.length) {
+            // Reolink APIs don't allow to delete recordings, keep track of them to hide them
+            this.storageSettings.values.removedVideoclips = [...removedVideoclips, ...removedIds];
+            this.searchCache?.removeVideoclips(removedIds);
+        }
     }
 
     async getMixinSettings(): Promise<Setting[]> {
-        this.storageSettings.settings.filenamePrefix.hide = !this.storageSettings.values.ftp;
+        this.storageSettings.settings.hybrid.hide = !this.storageSettings.values.ftp;
+        this.storageSettings.settings.archiveDetectionClasses.hide = !this.storageSettings.values.archive;
+        this.storageSettings.settings.archiveMaxSpaceInGb.hide = !this.storageSettings.values.archive;
+        this.storageSettings.settings.filenameTemplate.hide = !this.storageSettings.values.ftp;
+        this.storageSettings.settings.uploadStableSeconds.hide = !this.storageSettings.values.ftp;
+        this.storageSettings.settings.repairTruncatedClips.hide = !this.storageSettings.values.ftp;
+        this.storageSettings.settings.ftpServerUsername.hide = !this.storageSettings.values.ftp || !this.plugin.storageSettings.values.ftpServerEnabled;
+        this.storageSettings.settings.ftpServerPassword.hide = !this.storageSettings.values.ftp || !this.plugin.storageSettings.values.ftpServerEnabled;
         this.storageSettings.settings.ftpFolder.hide = !this.storageSettings.values.ftp;
+        this.storageSettings.settings.maxSpaceInGb.hide = !this.storageSettings.values.ftp;
+        this.storageSettings.settings.maxDays.hide = !this.storageSettings.values.ftp;
+        this.storageSettings.settings.minFreeSpaceInGb.hide = !this.storageSettings.values.ftp;
+        this.storageSettings.settings.occupiedSpaceInGb.hide = !this.storageSettings.values.ftp;
+        this.storageSettings.settings.minBatteryPercent.hide = !this.isBatteryCamera;
+
+        try {
+            this.storageSettings.values.calendarUrl = await this.getWebhookUrl('calendar');
+            this.storageSettings.values.metricsUrl = await this.getWebhookUrl('metrics');
+        } catch (e) {
+            this.getLogger().log('Error generating the webhook URLs', e.message);
+        }
 
         const settings = await this.storageSettings.getSettings();
 
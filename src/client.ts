@@ -1,8 +1,9 @@
 import { VideoClipOptions } from '@scrypted/sdk';
-import { AuthFetchCredentialState, authHttpFetch } from '@scrypted/common/src/http-auth-fetch';
-import { PassThrough, Readable } from 'stream';
+import { Readable } from 'stream';
 import { HttpFetchOptions } from '../../scrypted/server/src/fetch/http-fetch';
-import { getLoginParameters } from '../../scrypted/plugins/reolink/src/probe';
+import { ReolinkSession } from './session';
+import { RequestPriority } from './scheduler';
+import { CameraTimezone, getDayBounds, localTimeConverter, parseCameraTimeSettings, TimeConverter } from './timezone';
 
 export interface VideoSearchTime {
     day: number;
@@ -24,126 +25,79 @@ export interface VideoSearchResult {
     width: number;
 }
 
-export interface LoginData {
-    tokenLease: number;
-    parameters: Record<string, string>;
-}
-
 export type VideoSearchType = 'sub' | 'main';
 
 export class ReolinkCameraClient {
-    credential: AuthFetchCredentialState;
-    parameters: Record<string, string>;
-    tokenLease: number;
-    loggingIn = false;
-    refreshTokenInterval: NodeJS.Timeout;
+    timeConverter: TimeConverter = localTimeConverter;
 
     constructor(
-        public host: string,
-        public username: string,
-        public password: string,
+        public session: ReolinkSession,
         public channelId: number,
         public console: Console,
-        public readonly forceToken?: boolean
     ) {
-        this.credential = {
-            username,
-            password,
-        };
-        this.parameters = {};
+    }
 
-        this.refreshTokenInterval = setInterval(async () => this.refreshSession(), 1000 * 60 * 5);
-        this.refreshSession().catch(this.console.log);
+    get host() {
+        return this.session.host;
     }
 
-    async refreshSession() {
-        try {
-            await this.logout();
-            await this.login();
-        } catch (e) {
-            this.console.log('Error in refreshSession', e);
-        }
+    get parameters() {
+        return this.session.parameters;
     }
 
-    private async request(options: HttpFetchOptions<Readable>, body?: Readable) {
-        const response = await authHttpFetch({
-            ...options,
-            rejectUnauthorized: false,
-            credential: this.credential,
-            body,
-        });
-        return response;
+    login() {
+        return this.session.login();
     }
 
-    private createReadable = (data: any) => {
-        const pt = new PassThrough();
-        pt.write(Buffer.from(JSON.stringify(data)));
-        pt.end();
-        return pt;
+    private requestWithLogin(options: HttpFetchOptions<Readable>, body?: any, priority?: RequestPriority) {
+        return this.session.requestWithLogin(options, body, priority);
     }
 
-    async logout() {
-        const url = new URL(`http://${this.host}/api.cgi`);
-        const params = url.searchParams;
-        params.set('cmd', 'Logout');
-        await this.requestWithLogin({
-            url,
-            responseType: 'json',
-        });
+    async searchVideoClips(options?: VideoClipOptions, streamType: VideoSearchType = 'main') {
+        const url = new URL(`${this.session.baseUrl}/api.cgi`);
 
-        this.parameters = {};
-        this.tokenLease = undefined;
-    }
+        // Reolink only supports 1 day recordings fetching, in the camera timezone.
+        // If the endTime is not the same day as startTime,
+        // or no endDate is provided, set to the end of the startTime
+        const { end: dayEnd } = getDayBounds(this.timeConverter, options.startTime);
+        const endTimestamp = !options.endTime || options.endTime > dayEnd ? dayEnd : options.endTime;
 
-    async login() {
-        try {
-            if (!this.loggingIn) {
-                this.loggingIn = true;
-                if (this.tokenLease > Date.now()) {
-                    return;
+        const body = [
+            {
+                cmd: "Search",
+                action: 1,
+                param: {
+                    Search: {
+                        channel: this.channelId,
+                        streamType,
+                        onlyStatus: 0,
+                        StartTime: this.timeConverter.toSearchTime(options.startTime),
+                        EndTime: this.timeConverter.toSearchTime(endTimestamp),
+                    }
                 }
+            }
+        ];
 
-                if (this.tokenLease) {
-                    this.console.log(`token expired at ${this.tokenLease}, renewing...`);
-                }
+        const response = await this.requestWithLogin({
+            url,
+            responseType: 'json',
+            method: 'POST',
+        }, body);
 
-                const { parameters, leaseTimeSeconds } = await getLoginParameters(this.host, this.username, this.password, this.forceToken);
-                this.parameters = parameters
-                this.tokenLease = Date.now() + 1000 * leaseTimeSeconds;
-                this.loggingIn = false;
-                this.console.log(`New token: ${parameters.token}`);
-            }
-        } finally {
-            this.loggingIn = false;
+        const error = response.body?.[0]?.error;
+        if (error) {
+            throw new Error(`Error fetching videoclips: ${JSON.stringify({ error, body })}`);
         }
-    }
 
-    async requestWithLogin(options: HttpFetchOptions<Readable>, body?: Readable) {
-        await this.login();
-        const url = options.url as URL;
-        const params = url.searchParams;
-        for (const [k, v] of Object.entries(this.parameters)) {
-            params.set(k, v);
-        }
-        // this.console.log(`Calling ${url.pathname} with username ${params.get('username')} and token ${params.get('token')}`);
-        return this.request(options, body);
+        return (response.body?.[0]?.value?.SearchResult?.File ?? []) as VideoSearchResult[];
     }
 
-    async getVideoClips(options?: VideoClipOptions, streamType: VideoSearchType = 'main') {
-        const url = new URL(`http://${this.host}/api.cgi`);
-
-        const startTime = new Date(options.startTime);
-        let endTime = options.endTime ? new Date(options.endTime) : undefined;
-
-        // If the endTime is not the same day as startTime, 
-        // or no endDate is provided, set to the end of the startTime
-        // Reolink only supports 1 day recordings fetching
-        if (!endTime || endTime.getDate() > startTime.getDate()) {
-            endTime = new Date(startTime);
-            endTime.setHours(23);
-            endTime.setMinutes(59);
-            endTime.setSeconds(59);
-        }
+    /**
+     * Status only search, returns the days of the month having recordings
+     */
+    async getRecordingDays(year: number, month: number, streamType: VideoSearchType = 'main') {
+        const url = new URL(`${this.session.baseUrl}/api.cgi`);
+        const lastDay = new Date(year, month, 0).getDate();
 
         const body = [
             {
@@ -153,46 +107,103 @@ export class ReolinkCameraClient {
                     Search: {
                         channel: this.channelId,
                         streamType,
-                        onlyStatus: 0,
-                        StartTime: {
-                            year: startTime.getFullYear(),
-                            mon: startTime.getMonth() + 1,
-                            day: startTime.getDate(),
-                            hour: startTime.getHours(),
-                            min: startTime.getMinutes(),
-                            sec: startTime.getSeconds()
-                        },
-                        EndTime: {
-                            year: endTime.getFullYear(),
-                            mon: endTime.getMonth() + 1,
-                            day: endTime.getDate(),
-                            hour: endTime.getHours(),
-                            min: endTime.getMinutes(),
-                            sec: endTime.getSeconds()
-                        }
+                        onlyStatus: 1,
+                        StartTime: { year, mon: month, day: 1, hour: 0, min: 0, sec: 0 },
+                        EndTime: { year, mon: month, day: lastDay, hour: 23, min: 59, sec: 59 }
                     }
                 }
             }
         ];
 
-        try {
-            const response = await this.requestWithLogin({
-                url,
-                responseType: 'json',
-                method: 'POST',
-            }, this.createReadable(body));
-
-            const error = response.body?.[0]?.error;
-            if (error) {
-                this.console.log('Error fetching videoclips', error, JSON.stringify({ body, url }));
-                return [];
+        const response = await this.requestWithLogin({
+            url,
+            responseType: 'json',
+            method: 'POST',
+        }, body);
+
+        const error = response.body?.[0]?.error;
+        if (error) {
+            throw new Error(`Error fetching the recording status: ${JSON.stringify({ error, body })}`);
+        }
+
+        // Each status has a table with one character per day of the month, 1 if recordings are present
+        const statuses = (response.body?.[0]?.value?.SearchResult?.Status ?? []) as {
+            year: number;
+            mon: number;
+            table: string;
+        }[];
+
+        const days = new Set<number>();
+        for (const status of statuses) {
+            if (status.year !== year || status.mon !== month) {
+                continue;
+            }
+
+            [...(status.table ?? '')].forEach((value, index) => value === '1' && days.add(index + 1));
+        }
+
+        return Array.from(days).sort((a, b) => a - b);
+    }
+
+    /**
+     * Reads the timezone and DST rules of the camera, used for all the following conversions
+     */
+    async loadTimezone() {
+        const url = new URL(`${this.session.baseUrl}/api.cgi`);
+
+        const body = [
+            {
+                cmd: "GetTime",
+                action: 0,
+                param: {}
+            }
+        ];
+
+        const response = await this.requestWithLogin({
+            url,
+            responseType: 'json',
+            method: 'POST',
+        }, body, 'background');
+
+        const settings = parseCameraTimeSettings(response.body?.[0]?.value);
+        if (!settings) {
+            throw new Error(`Error fetching the time settings: ${JSON.stringify(response.body?.[0]?.error)}`);
+        }
+
+        this.timeConverter = new CameraTimezone(settings);
+        return settings;
+    }
+
+    async getHddInfo() {
+        const url = new URL(`${this.session.baseUrl}/api.cgi`);
+
+        const body = [
+            {
+                cmd: "GetHddInfo",
+                action: 0,
+                param: {}
             }
+        ];
 
-            return (response.body?.[0]?.value?.SearchResult?.File ?? []) as VideoSearchResult[];
-        } catch (e) {
-            this.console.log('Error fetching videoclips', e);
-            return [];
+        const response = await this.requestWithLogin({
+            url,
+            responseType: 'json',
+            method: 'POST',
+        }, body, 'background');
+
+        const error = response.body?.[0]?.error;
+        if (error) {
+            throw new Error(`Error fetching the HDD info: ${JSON.stringify(error)}`);
         }
+
+        // Sizes are in MB, size is the free space
+        return (response.body?.[0]?.value?.HddInfo ?? []) as {
+            capacity: number;
+            format: number;
+            mount: number;
+            number: number;
+            size: number;
+        }[];
     }
 
     async getVideoClipUrl(videoclipPath: string, deviceId: string) {
@@ -209,15 +220,15 @@ export class ReolinkCameraClient {
         return {
             downloadPath,
             playbackPath,
-            downloadPathWithHost: `http://${this.host}/${downloadPath}`,
-            playbackPathWithHost: `http://${this.host}/${playbackPath}`,
+            downloadPathWithHost: `${this.session.baseUrl}/${downloadPath}`,
+            playbackPathWithHost: `${this.session.baseUrl}/${playbackPath}`,
             fileName,
             fileNameWithExtension,
         };
     }
 
     async jpegSnapshot(timeout = 10000) {
-        const url = new URL(`http://${this.host}/cgi-bin/api.cgi`);
+        const url = new URL(`${this.session.baseUrl}/cgi-bin/api.cgi`);
         const params = url.searchParams;
         params.set('cmd', 'Snap');
         params.set('snapType', 'main');
@@ -231,39 +242,4 @@ export class ReolinkCameraClient {
 
         return response.body;
     }
-
-    async getBatteryInfo() {
-        const url = new URL(`http://${this.host}/api.cgi`);
-
-        const body = [
-            {
-                cmd: "GetBatteryInfo",
-                action: 0,
-                param: { channel: this.channelId }
-            },
-            {
-                cmd: "GetChannelstatus",
-            }
-        ];
-
-        const response = await this.requestWithLogin({
-            url,
-            responseType: 'json',
-            method: 'POST',
-        }, this.createReadable(body));
-
-        const error = response.body?.find(elem => elem.error)?.error;
-        if (error) {
-            this.console.error('error during call to getBatteryInfo', error);
-        }
-
-        const batteryInfoEntry = response.body.find(entry => entry.cmd === 'GetBatteryInfo')?.value?.Battery;
-        const channelStatusEntry = response.body.find(entry => entry.cmd === 'GetChannelstatus')?.value?.status
-            ?.find(chStatus => chStatus.channel === this.channelId)
-
-        return {
-            batteryPercent: batteryInfoEntry?.batteryPercent,
-            sleep: channelStatusEntry ? channelStatusEntry.sleep === 1 : undefined,
-        }
-    }
 }
@@ -0,0 +1,428 @@
+import fs from 'fs';
+import path from 'path';
+import { VideoSearchTime } from './client';
+import { VideoclipMetadata } from './mp4';
+
+export interface VideoclipFileData extends VideoclipMetadata {
+    filename: string;
+    fullPath: string;
+    time: VideoSearchTime;
+    timestamp: number;
+    type: 'video' | 'image';
+    size: number;
+    mtime: number;
+    endTimestamp?: number;
+}
+
+export type ParsedFilename = Pick<VideoclipFileData, 'time' | 'timestamp' | 'type'>;
+
+interface IndexFileContent {
+    version: number;
+    signature: string;
+    entries: VideoclipFileData[];
+}
+
+const indexVersion = 2;
+// Images uploaded this close to a video belong to the same event
+const pairingMarginMs = 1000 * 10;
+// Lookback for the videos an image could fall in
+const maxPairedVideoMs = 1000 * 60 * 60;
+
+/**
+ * Persistent index of the clips stored in a folder. It's kept updated
+ * by the filesystem watcher, while reconcile walks the whole folder
+ * and is meant to run only periodically as a fallback
+ */
+export class FtpClipIndex {
+    entries: VideoclipFileData[] = [];
+    private byPath = new Map<string, VideoclipFileData>();
+    private watcher: fs.FSWatcher;
+    private saveTimeout: NodeJS.Timeout;
+    private pendingUpdates = new Map<string, NodeJS.Timeout>();
+    private reconciling: Promise<void>;
+
+    constructor(public props: {
+        folder: string,
+        indexFile: string,
+        /** Anything affecting the parsing, the index is rebuilt when it changes */
+        signature: string,
+        parseFilename: (fullPath: string) => ParsedFilename | undefined,
+        readMetadata?: (fullPath: string) => Promise<VideoclipMetadata>,
+        /** Files are indexed only once they are not modified for this time, to skip uploads in progress */
+        stableWindowMs?: number,
+        /** Called for the files added to the index, not for the ones loaded from the index file */
+        onEntryAdded?: (entry: VideoclipFileData) => void,
+        onEntryRemoved?: (entry: VideoclipFileData) => void,
+        console: Console,
+    }) {
+    }
+
+    async load() {
+        const { indexFile, signature, console } = this.props;
+        try {
+            if (!fs.existsSync(indexFile)) {
+                return;
+            }
+
+            const content: IndexFileContent = JSON.parse(await fs.promises.readFile(indexFile, 'utf-8'));
+            if (content.version !== indexVersion || content.signature !== signature) {
+                console.log(`Index ${indexFile} outdated, it will be rebuilt`);
+                return;
+            }
+
+            this.setEntries(content.entries);
+            console.log(`Index loaded with ${this.entries.length} entries`);
+        } catch (e) {
+            console.log(`Error loading index ${indexFile}`, e);
+        }
+    }
+
+    async save() {
+        const { indexFile, signature } = this.props;
+        const content: IndexFileContent = {
+            version: indexVersion,
+            signature,
+            entries: this.entries,
+        };
+
+        const tmpFile = `${indexFile}.tmp`;
+        await fs.promises.writeFile(tmpFile, JSON.stringify(content));
+        await fs.promises.rename(tmpFile, indexFile);
+    }
+
+    private scheduleSave() {
+        if (this.saveTimeout) {
+            return;
+        }
+
+        this.saveTimeout = setTimeout(() => {
+            this.saveTimeout = undefined;
+            this.save().catch(e => this.props.console.log('Error saving the index', e));
+        }, 5000);
+    }
+
+    private setEntries(entries: VideoclipFileData[]) {
+        this.entries = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+        this.byPath = new Map(this.entries.map(entry => [entry.fullPath, entry]));
+    }
+
+    /**
+     * Index of the first entry with timestamp >= the given one
+     */
+    private lowerBound(timestamp: number) {
+        let low = 0;
+        let high = this.entries.length;
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (this.entries[mid].timestamp < timestamp) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+
+        return low;
+    }
+
+    getRange(startTime: number, endTime: number) {
+        const result: VideoclipFileData[] = [];
+        for (let i = this.lowerBound(startTime); i < this.entries.length; i++) {
+            const entry = this.entries[i];
+            if (entry.timestamp > endTime) {
+                break;
+            }
+            result.push(entry);
+        }
+
+        return result;
+    }
+
+    get(fullPath: string) {
+        return this.byPath.get(fullPath);
+    }
+
+    private isVideo(entry: VideoclipFileData) {
+        return entry.type === 'video' && !entry.missingMoov;
+    }
+
+    /**
+     * Complete video closest in time, its codec configuration is used to repair the truncated clips
+     */
+    getReferenceVideo(timestamp: number) {
+        const index = this.lowerBound(timestamp);
+        for (let distance = 0; index - distance >= 0 || index + distance < this.entries.length; distance++) {
+            const candidates = distance ? [this.entries[index - distance], this.entries[index + distance]] : [this.entries[index]];
+            const video = candidates.find(entry => entry && this.isVideo(entry));
+            if (video) {
+                return video;
+            }
+        }
+    }
+
+    /**
+     * Video the image was uploaded for, the closest one containing the image within the margin
+     */
+    getPairedVideo(image: VideoclipFileData) {
+        let paired: VideoclipFileData;
+        for (const entry of this.getRange(image.timestamp - maxPairedVideoMs, image.timestamp + pairingMarginMs)) {
+            if (!this.isVideo(entry)) {
+                continue;
+            }
+
+            const end = entry.endTimestamp ?? entry.timestamp;
+            if (image.timestamp < entry.timestamp - pairingMarginMs || image.timestamp > end + pairingMarginMs) {
+                continue;
+            }
+
+            if (!paired || Math.abs(entry.timestamp - image.timestamp) < Math.abs(paired.timestamp - image.timestamp)) {
+                paired = entry;
+            }
+        }
+
+        return paired;
+    }
+
+    /**
+     * Image to use as thumbnail of the video, the closest to its start among the ones paired with it
+     */
+    getPairedImage(video: VideoclipFileData) {
+        let paired: VideoclipFileData;
+        const end = video.endTimestamp ?? video.timestamp;
+        for (const entry of this.getRange(video.timestamp - pairingMarginMs, end + pairingMarginMs)) {
+            if (entry.type !== 'image' || this.getPairedVideo(entry) !== video) {
+                continue;
+            }
+
+            if (!paired || Math.abs(entry.timestamp - video.timestamp) < Math.abs(paired.timestamp - video.timestamp)) {
+                paired = entry;
+            }
+        }
+
+        return paired;
+    }
+
+    upsert(entry: VideoclipFileData) {
+        const existing = this.byPath.get(entry.fullPath);
+        if (existing) {
+            if (existing.size === entry.size && existing.mtime === entry.mtime) {
+                return;
+            }
+            this.entries.splice(this.entries.indexOf(existing), 1);
+        }
+
+        this.entries.splice(this.lowerBound(entry.timestamp), 0, entry);
+        this.byPath.set(entry.fullPath, entry);
+        this.scheduleSave();
+
+        if (!existing) {
+            this.props.onEntryAdded?.(entry);
+        }
+    }
+
+    remove(fullPath: string) {
+        const existing = this.byPath.get(fullPath);
+        if (!existing) {
+            return;
+        }
+
+        this.entries.splice(this.entries.indexOf(existing), 1);
+        this.byPath.delete(fullPath);
+        this.scheduleSave();
+        this.props.onEntryRemoved?.(existing);
+    }
+
+    private async buildEntry(fullPath: string, stat?: fs.Stats) {
+        const parsed = this.props.parseFilename(fullPath);
+        if (!parsed) {
+            return;
+        }
+
+        const fileStat = stat ?? await fs.promises.stat(fullPath);
+        const entry: VideoclipFileData = {
+            ...parsed,
+            filename: path.basename(fullPath),
+            fullPath,
+            size: fileStat.size,
+            mtime: fileStat.mtimeMs,
+        };
+
+        if (entry.type === 'video' && this.props.readMetadata) {
+            try {
+                const metadata = await this.props.readMetadata(fullPath);
+                Object.assign(entry, metadata);
+                if (metadata?.durationMs) {
+                    entry.endTimestamp = entry.timestamp + metadata.durationMs;
+                }
+            } catch (e) {
+                this.props.console.debug(`Metadata not available for ${fullPath}`, e.message);
+            }
+        }
+
+        return entry;
+    }
+
+    private getRemainingStableTime(stat: fs.Stats) {
+        const { stableWindowMs } = this.props;
+        if (!stableWindowMs) {
+            return 0;
+        }
+
+        return Math.max(0, stableWindowMs - (Date.now() - stat.mtimeMs));
+    }
+
+    private scheduleUpdate(fullPath: string, delayMs: number) {
+        clearTimeout(this.pendingUpdates.get(fullPath));
+        this.pendingUpdates.set(fullPath, setTimeout(() => {
+            this.pendingUpdates.delete(fullPath);
+            this.updatePath(fullPath);
+        }, delayMs));
+    }
+
+    /**
+     * Updates a single path, to be called whenever a file is known to be changed.
+     * Completed uploads can skip the stable window check
+     */
+    async updatePath(fullPath: string, completed?: boolean) {
+        try {
+            const stat = await fs.promises.stat(fullPath).catch(() => undefined as fs.Stats);
+            if (stat?.isDirectory()) {
+                // Folders moved in at once don't emit events for their files
+                await this.walk(fullPath, new Set());
+                return;
+            }
+
+            if (!stat?.isFile()) {
+                if (this.byPath.has(fullPath)) {
+                    this.remove(fullPath);
+                    return;
+                }
+
+                // Could be a folder removed with all its content
+                const folderPrefix = fullPath + path.sep;
+                for (const entry of [...this.entries]) {
+                    if (entry.fullPath.startsWith(folderPrefix)) {
+                        this.remove(entry.fullPath);
+                    }
+                }
+                return;
+            }
+
+            const remainingStableTime = completed ? 0 : this.getRemainingStableTime(stat);
+            if (remainingStableTime) {
+                this.remove(fullPath);
+                this.scheduleUpdate(fullPath, remainingStableTime + 1000);
+                return;
+            }
+
+            const entry = await this.buildEntry(fullPath, stat);
+            entry && this.upsert(entry);
+        } catch (e) {
+            this.props.console.log(`Error indexing ${fullPath}`, e);
+        }
+    }
+
+    private async walk(dir: string, found: Set<string>) {
+        const { console } = this.props;
+        const dirents = await fs.promises.readdir(dir, { withFileTypes: true });
+
+        for (const dirent of dirents) {
+            const fullPath = path.join(dir, dirent.name);
+
+            if (dirent.isDirectory()) {
+                await this.walk(fullPath, found);
+                continue;
+            }
+
+            if (!dirent.isFile()) {
+                continue;
+            }
+
+            try {
+                const stat = await fs.promises.stat(fullPath);
+                const existing = this.byPath.get(fullPath);
+                if (existing && existing.size === stat.size && existing.mtime === stat.mtimeMs) {
+                    found.add(fullPath);
+                    continue;
+                }
+
+                const remainingStableTime = this.getRemainingStableTime(stat);
+                if (remainingStableTime) {
+                    this.scheduleUpdate(fullPath, remainingStableTime + 1000);
+                    continue;
+                }
+
+                const entry = await this.buildEntry(fullPath, stat);
+                if (entry) {
+                    found.add(fullPath);
+                    this.upsert(entry);
+                }
+            } catch (e) {
+                console.log(`Error indexing ${fullPath}`, e);
+            }
+        }
+    }
+
+    /**
+     * Walks the whole folder adding missing files and removing deleted ones
+     */
+    async reconcile() {
+        if (!this.reconciling) {
+            this.reconciling = (async () => {
+                const { folder, console } = this.props;
+                const startedAt = Date.now();
+                const found = new Set<string>();
+
+                await this.walk(folder, found);
+
+                for (const entry of [...this.entries]) {
+                    if (!found.has(entry.fullPath)) {
+                        this.remove(entry.fullPath);
+                    }
+                }
+
+                console.debug(`Index reconciled in ${Date.now() - startedAt}ms: ${this.entries.length} entries`);
+            })().finally(() => this.reconciling = undefined);
+        }
+
+        return this.reconciling;
+    }
+
+    watch() {
+        const { folder, console } = this.props;
+        this.unwatch();
+
+        this.watcher = fs.watch(folder, { recursive: true }, (_, filename) => {
+            if (!filename) {
+                return;
+            }
+
+            // Events come in bursts while a file is being written
+            this.scheduleUpdate(path.join(folder, filename.toString()), 2000);
+        });
+
+        this.watcher.on('error', e => {
+            console.log('Error in the FTP folder watcher, relying on periodic scans', e);
+            this.unwatch();
+        });
+    }
+
+    unwatch() {
+        this.watcher?.close();
+        this.watcher = undefined;
+
+        for (const timeout of this.pendingUpdates.values()) {
+            clearTimeout(timeout);
+        }
+        this.pendingUpdates.clear();
+    }
+
+    async stop() {
+        this.unwatch();
+
+        if (this.saveTimeout) {
+            clearTimeout(this.saveTimeout);
+            this.saveTimeout = undefined;
+            await this.save();
+        }
+    }
+}
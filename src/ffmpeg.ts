@@ -0,0 +1,44 @@
+import sdk from '@scrypted/sdk';
+import child_process from 'child_process';
+
+export const runFFmpeg = async (props: {
+    args: string[],
+    console: Console,
+    timeout?: number,
+    // Kills FFmpeg, i.e. when the scheduler slot running it times out
+    signal?: AbortSignal,
+}) => {
+    const { args, console, timeout = 1000 * 60 * 5, signal } = props;
+    const ffmpegPath = await sdk.mediaManager.getFFmpegPath();
+    signal?.throwIfAborted();
+
+    return new Promise<void>((resolve, reject) => {
+        const cp = child_process.spawn(ffmpegPath, [
+            '-hide_banner',
+            '-loglevel', 'error',
+            '-y',
+            ...args,
+        ], { signal, killSignal: 'SIGKILL' });
+
+        let stderr = '';
+        cp.stderr.on('data', data => stderr += data.toString());
+
+        const timer = setTimeout(() => {
+            console.log(`FFmpeg timed out after ${timeout}ms, killing it`);
+            cp.kill('SIGKILL');
+        }, timeout);
+
+        cp.on('error', e => {
+            clearTimeout(timer);
+            reject(e);
+        });
+        cp.on('exit', code => {
+            clearTimeout(timer);
+            if (code === 0) {
+                resolve();
+            } else {
+                reject(new Error(`FFmpeg exited with code ${code}: ${stderr.trim()}`));
+            }
+        });
+    });
+}
@@ -0,0 +1,86 @@
+import { FtpSrv } from 'ftp-srv';
+import fs from 'fs';
+import type ReolinkVideoclipssMixin from './cameraMixin';
+
+export interface VideoclipsFtpServerOptions {
+    port: number;
+    pasvAddress: string;
+    pasvMinPort: number;
+    pasvMaxPort: number;
+    findMixin: (username: string, password: string) => ReolinkVideoclipssMixin | undefined;
+    console: Console;
+}
+
+/**
+ * Embedded FTP server, each camera logs in with its own credentials
+ * and uploads directly into the FTP folder of its mixin
+ */
+export class VideoclipsFtpServer {
+    server: FtpSrv;
+
+    constructor(public options: VideoclipsFtpServerOptions) {
+    }
+
+    async start() {
+        const { port, pasvAddress, pasvMinPort, pasvMaxPort, findMixin, console } = this.options;
+
+        this.server = new FtpSrv({
+            url: `ftp://0.0.0.0:${port}`,
+            pasv_url: pasvAddress,
+            pasv_min: pasvMinPort,
+            pasv_max: pasvMaxPort,
+            anonymous: false,
+            greeting: 'Reolink videoclips',
+            // ftp-srv logs through bunyan, keep it quiet
+            log: {
+                trace: () => { },
+                debug: () => { },
+                info: () => { },
+                warn: () => { },
+                error: (error: any) => console.log('FTP server error', error?.message ?? error),
+                child: function () { return this; },
+            },
+        });
+
+        this.server.on('login', ({ connection, username, password }, resolve, reject) => {
+            const mixin = findMixin(username, password);
+            const ftpFolder = mixin?.storageSettings.values.ftpFolder;
+
+            if (!mixin || !ftpFolder) {
+                console.log(`FTP login rejected for user ${username} from ${connection.ip}`);
+                reject(new Error('Invalid credentials'));
+                return;
+            }
+
+            if (!fs.existsSync(ftpFolder)) {
+                fs.mkdirSync(ftpFolder, { recursive: true });
+            }
+
+            const logger = mixin.getLogger();
+            logger.debug(`FTP login from ${connection.ip}`);
+
+            connection.on('STOR', (error: Error, fileName: string) => {
+                if (error) {
+                    logger.log('Error during FTP upload', error);
+                    return;
+                }
+
+                mixin.onFtpUpload(fileName).catch(logger.log);
+            });
+
+            resolve({ root: ftpFolder });
+        });
+
+        this.server.on('client-error', ({ context, error }) => {
+            console.log(`FTP client error in ${context}`, error?.message);
+        });
+
+        await this.server.listen();
+        console.log(`FTP server listening on port ${port}, passive address ${pasvAddress}:${pasvMinPort}-${pasvMaxPort}`);
+    }
+
+    async stop() {
+        await this.server?.close();
+        this.server = undefined;
+    }
+}
@@ -0,0 +1,190 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { runFFmpeg } from './ffmpeg';
+
+export interface HlsPackagerOptions {
+    folder: string;
+    console: Console;
+    // Packaged clips not requested for this time are removed
+    ttlMs: number;
+}
+
+export interface HlsPackagingInput {
+    input: string;
+    // Inputs not playable in the browsers should be transcoded
+    transcode: boolean;
+    // Bounds the FFmpeg processes
+    schedule: <T>(task: (signal?: AbortSignal) => Promise<T>) => Promise<T>;
+}
+
+const playlistName = 'index.m3u8';
+const segmentDurationSeconds = 4;
+const waitTimeoutMs = 1000 * 30;
+const waitIntervalMs = 500;
+const packagingTimeout = 1000 * 60 * 60;
+
+export const isHlsSegmentName = (name: string) => /^segment_\d{5}\.ts$/.test(name ?? '');
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Packages the clips to HLS with FFmpeg. The playlist is served while the packaging
+ * is still running, players start with the first segments and reload it until completed
+ */
+export class HlsPackager {
+    private pending = new Map<string, Promise<void>>();
+
+    constructor(public options: HlsPackagerOptions) {
+        if (!fs.existsSync(options.folder)) {
+            fs.mkdirSync(options.folder, { recursive: true });
+        }
+    }
+
+    private getClipFolder(name: string) {
+        const hash = crypto.createHash('sha256').update(name).digest('hex').substring(0, 16);
+        return path.join(this.options.folder, hash);
+    }
+
+    private async readPlaylist(name: string) {
+        return fs.promises.readFile(path.join(this.getClipFolder(name), playlistName), 'utf-8').catch(() => undefined as string);
+    }
+
+    /**
+     * True when the clip is packaged or being packaged, otherwise start has to be called
+     */
+    async isAvailable(name: string) {
+        const folder = this.getClipFolder(name);
+        if (this.pending.has(folder)) {
+            return true;
+        }
+
+        const playlist = await this.readPlaylist(name);
+        if (playlist?.includes('#EXT-X-ENDLIST')) {
+            // The modification time tracks the last use
+            const now = new Date();
+            await fs.promises.utimes(folder, now, now).catch(() => { });
+            return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Starts the packaging in background
+     */
+    start(name: string, props: HlsPackagingInput) {
+        const folder = this.getClipFolder(name);
+        if (!this.pending.has(folder)) {
+            const promise = this.run(name, folder, props).finally(() => this.pending.delete(folder));
+            this.pending.set(folder, promise);
+        }
+    }
+
+    private async run(name: string, folder: string, props: HlsPackagingInput) {
+        const { console } = this.options;
+        const { input, transcode, schedule } = props;
+        const startedAt = Date.now();
+
+        try {
+            await this.removeExpired().catch(e => console.log('Error removing the expired HLS clips', e));
+
+            // Leftover of an interrupted packaging
+            await fs.promises.rm(folder, { recursive: true, force: true });
+            await fs.promises.mkdir(folder, { recursive: true });
+
+            await schedule((signal) => runFFmpeg({
+                args: [
+                    '-i', input,
+                    '-map', '0:v:0',
+                    '-map', '0:a:0?',
+                    ...(transcode ?
+                        ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-pix_fmt', 'yuv420p'] :
+                        ['-c:v', 'copy']),
+                    '-c:a', 'aac',
+                    '-b:a', '128k',
+                    '-f', 'hls',
+                    '-hls_time', `${segmentDurationSeconds}`,
+                    '-hls_list_size', '0',
+                    '-hls_playlist_type', 'event',
+                    '-hls_segment_filename', path.join(folder, 'segment_%05d.ts'),
+                    path.join(folder, playlistName),
+                ],
+                console,
+                timeout: packagingTimeout,
+                signal,
+            }));
+            console.log(`Videoclip ${name} packaged to HLS in ${Date.now() - startedAt}ms`);
+        } catch (e) {
+            console.log(`Error packaging videoclip ${name} to HLS`, e.message);
+            await fs.promises.rm(folder, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Waits for the first segment, segment names are to be replaced with their URLs
+     */
+    async getPlaylist(name: string) {
+        const folder = this.getClipFolder(name);
+        const waitUntil = Date.now() + waitTimeoutMs;
+
+        while (true) {
+            const playlist = await this.readPlaylist(name);
+            if (playlist && playlist.split('\n').some(isHlsSegmentName)) {
+                return playlist;
+            }
+
+            if (!this.pending.has(folder)) {
+                throw new Error(`HLS packaging of ${name} failed`);
+            }
+
+            if (Date.now() > waitUntil) {
+                throw new Error(`HLS packaging of ${name} did not produce segments in ${waitTimeoutMs}ms`);
+            }
+
+            await sleep(waitIntervalMs);
+        }
+    }
+
+    /**
+     * Segments are listed in the playlist once completely written
+     */
+    async getSegmentPath(name: string, segment: string) {
+        if (!isHlsSegmentName(segment)) {
+            return;
+        }
+
+        const folder = this.getClipFolder(name);
+        const waitUntil = Date.now() + waitTimeoutMs;
+
+        while (true) {
+            const playlist = await this.readPlaylist(name);
+            if (playlist?.split('\n').includes(segment)) {
+                return path.join(folder, segment);
+            }
+
+            if (!this.pending.has(folder) || Date.now() > waitUntil) {
+                return;
+            }
+
+            await sleep(waitIntervalMs);
+        }
+    }
+
+    private async removeExpired() {
+        const { folder, ttlMs } = this.options;
+        const now = Date.now();
+
+        for (const entry of await fs.promises.readdir(folder)) {
+            const clipFolder = path.join(folder, entry);
+            if (this.pending.has(clipFolder)) {
+                continue;
+            }
+
+            const stat = await fs.promises.stat(clipFolder);
+            if (now - stat.mtimeMs > ttlMs) {
+                await fs.promises.rm(clipFolder, { recursive: true, force: true });
+            }
+        }
+    }
+}
@@ -1,9 +1,12 @@
 import sdk, { DeviceBase, HttpRequest, HttpRequestHandler, HttpResponse, MixinProvider, ScryptedDeviceBase, ScryptedDeviceType, ScryptedInterface, Setting, SettingValue, WritableDeviceState } from "@scrypted/sdk";
 import { StorageSettings } from "@scrypted/sdk/storage-settings";
-import { cleanup } from "./utils";
+import { cleanup, signWebhookRequest, verifyWebhookRequest } from "./utils";
 import ReolinkVideoclipssMixin from "./cameraMixin";
-import http from 'http';
-import fs from 'fs';
+import crypto from 'crypto';
+import { VideoclipsFtpServer } from "./ftpServer";
+import { ReolinkConnectionOptions, ReolinkSession } from "./session";
+import { RequestScheduler } from "./scheduler";
+import { proxyCameraVideoclip, sendGrowingVideoclip, sendLocalVideoclip } from "./playback";
 
 export default class ReolinkVideoclipssProvider extends ScryptedDeviceBase implements MixinProvider, HttpRequestHandler {
     storageSettings = new StorageSettings(this, {
@@ -17,11 +20,295 @@ export default class ReolinkVideoclipssProvider extends ScryptedDeviceBase imple
             type: 'button',
             onPut: async () => await cleanup(this.storageSettings.values.downloadFolder)
         },
+        webhookUrlExpirationHours: {
+            title: 'Videoclip URLs expiration in hours',
+            description: 'URLs of videoclips and thumbnails are signed and stop working after this time',
+            type: 'number',
+            defaultValue: 24,
+        },
+        webhookEndpoint: {
+            title: 'Videoclip URLs endpoint',
+            description: 'Auto uses the cloud endpoint when Scrypted Cloud is available, the local one otherwise',
+            type: 'string',
+            choices: ['Auto', 'Local', 'Cloud', 'Custom'],
+            defaultValue: 'Auto',
+            immediate: true,
+        },
+        webhookBaseUrl: {
+            title: 'Custom base URL',
+            description: 'Used with the Custom endpoint, i.e. https://scrypted.mydomain.com for a reverse proxy to the Scrypted server',
+            type: 'string',
+        },
+        webhookSecret: {
+            type: 'string',
+            hide: true,
+        },
+        ftpServerEnabled: {
+            title: 'Enable FTP server',
+            description: 'Cameras can upload directly to the plugin with the FTP credentials set on each camera',
+            group: 'FTP server',
+            type: 'boolean',
+            immediate: true,
+            onPut: async () => await this.checkFtpServer()
+        },
+        ftpServerPort: {
+            title: 'Port',
+            group: 'FTP server',
+            type: 'number',
+            defaultValue: 2121,
+            onPut: async () => await this.checkFtpServer()
+        },
+        ftpServerPasvAddress: {
+            title: 'Passive mode address',
+            description: 'Address the cameras use to reach the server in passive mode. Default to the first local address',
+            group: 'FTP server',
+            type: 'string',
+            onPut: async () => await this.checkFtpServer()
+        },
+        ftpServerPasvMinPort: {
+            title: 'Passive mode min port',
+            group: 'FTP server',
+            type: 'number',
+            defaultValue: 50000,
+            onPut: async () => await this.checkFtpServer()
+        },
+        ftpServerPasvMaxPort: {
+            title: 'Passive mode max port',
+            group: 'FTP server',
+            type: 'number',
+            defaultValue: 50100,
+            onPut: async () => await this.checkFtpServer()
+        },
+        maxConcurrentRequests: {
+            title: 'Max concurrent requests per camera',
+            description: 'Reolink cameras support only a few concurrent connections, the others are queued by priority: playback, search, background tasks',
+            group: 'Camera requests',
+            type: 'number',
+            defaultValue: 2,
+            onPut: () => this.updateSchedulers()
+        },
+        requestTimeoutSeconds: {
+            title: 'Request timeout in seconds',
+            group: 'Camera requests',
+            type: 'number',
+            defaultValue: 30,
+            onPut: () => this.updateSchedulers()
+        },
+        thumbnailConcurrency: {
+            title: 'Max concurrent FFmpeg processes',
+            description: 'Thumbnails, transcodings and HLS packagings of all the cameras. Thumbnails requested by the timeline go first, the pre-generation runs in background',
+            type: 'number',
+            defaultValue: 2,
+            onPut: () => this.updateSchedulers()
+        },
     });
     public mixinsMap: Record<string, ReolinkVideoclipssMixin> = {};
+    thumbnailScheduler: RequestScheduler;
+    ftpServer: VideoclipsFtpServer;
+    sessions: Record<string, { session: ReolinkSession, deviceIds: Set<string> }> = {};
+    schedulers: Record<string, RequestScheduler> = {};
+    downloadSchedulers: Record<string, RequestScheduler> = {};
 
     constructor(nativeId: string) {
         super(nativeId);
+
+        this.checkFtpServer().catch(this.console.log);
+    }
+
+    async checkFtpServer() {
+        await this.ftpServer?.stop();
+        this.ftpServer = undefined;
+
+        const {
+            ftpServerEnabled,
+            ftpServerPort,
+            ftpServerPasvAddress,
+            ftpServerPasvMinPort,
+            ftpServerPasvMaxPort,
+        } = this.storageSettings.values;
+
+        if (!ftpServerEnabled) {
+            return;
+        }
+
+        const pasvAddress = ftpServerPasvAddress || (await sdk.endpointManager.getLocalAddresses())?.[0];
+
+        const ftpServer = new VideoclipsFtpServer({
+            port: ftpServerPort,
+            pasvAddress,
+            pasvMinPort: ftpServerPasvMinPort,
+            pasvMaxPort: ftpServerPasvMaxPort,
+            console: this.console,
+            findMixin: (username, password) => Object.values(this.mixinsMap).find(mixin => {
+                const { ftp, ftpServerUsername, ftpServerPassword } = mixin.storageSettings.values;
+                return ftp && ftpServerUsername && ftpServerUsername === username && ftpServerPassword === password;
+            }),
+        });
+
+        try {
+            await ftpServer.start();
+            this.ftpServer = ftpServer;
+        } catch (e) {
+            this.console.log('Error starting the FTP server', e);
+            await ftpServer.stop().catch(() => { });
+        }
+    }
+
+    getWebhookSecret() {
+        if (!this.storageSettings.values.webhookSecret) {
+            this.storageSettings.values.webhookSecret = crypto.randomBytes(32).toString('hex');
+        }
+
+        return this.storageSettings.values.webhookSecret as string;
+    }
+
+    /**
+     * Endpoint of the webhooks, ending with a slash, and its query parameters
+     */
+    async getWebhookEndpoint() {
+        const { webhookEndpoint, webhookBaseUrl } = this.storageSettings.values;
+
+        const getLocalEndpoint = () => sdk.endpointManager.getLocalEndpoint(undefined, { public: true });
+        const getCloudEndpoint = () => sdk.endpointManager.getCloudEndpoint(undefined, { public: true });
+
+        let endpointUrl: string;
+        if (webhookEndpoint === 'Local') {
+            endpointUrl = await getLocalEndpoint();
+        } else if (webhookEndpoint === 'Cloud') {
+            endpointUrl = await getCloudEndpoint();
+        } else if (webhookEndpoint === 'Custom' && webhookBaseUrl) {
+            // Same path of the local endpoint, on the proxy origin
+            const localUrl = new URL(await getLocalEndpoint());
+            endpointUrl = `${webhookBaseUrl.replace(/\/+$/, '')}${localUrl.pathname}`;
+        } else {
+            endpointUrl = await getCloudEndpoint().catch(e => {
+                this.console.debug('Cloud endpoint not available, using the local one', e?.message);
+                return undefined as string;
+            }) || await getLocalEndpoint();
+        }
+
+        const [endpoint, parameters] = endpointUrl.split('?');
+
+        return {
+            endpoint: endpoint.endsWith('/') ? endpoint : `${endpoint}/`,
+            parameters: parameters ?? '',
+        };
+    }
+
+    /**
+     * Query string of a signed webhook request, expiring after the configured time
+     */
+    getSignedWebhookQuery(webhook: string, params: Record<string, any>) {
+        const expires = Date.now() + this.storageSettings.values.webhookUrlExpirationHours * 1000 * 60 * 60;
+        const paramsString = JSON.stringify({ ...params, expires });
+        const signature = signWebhookRequest(this.getWebhookSecret(), webhook, paramsString);
+
+        return `params=${encodeURIComponent(paramsString)}&signature=${signature}`;
+    }
+
+    private getSchedulerOptions() {
+        const { maxConcurrentRequests, requestTimeoutSeconds } = this.storageSettings.values;
+
+        return {
+            maxConcurrent: maxConcurrentRequests,
+            timeoutMs: requestTimeoutSeconds * 1000,
+            console: this.console,
+        };
+    }
+
+    getScheduler(host: string) {
+        if (!this.schedulers[host]) {
+            this.schedulers[host] = new RequestScheduler(host, this.getSchedulerOptions());
+        }
+
+        return this.schedulers[host];
+    }
+
+    /**
+     * Archive downloads run one at a time per host, across all the cameras behind it
+     */
+    getDownloadScheduler(host: string) {
+        if (!this.downloadSchedulers[host]) {
+            this.downloadSchedulers[host] = new RequestScheduler(`${host} downloads`, {
+                maxConcurrent: 1,
+                // Downloads have their own socket timeout
+                timeoutMs: 0,
+                console: this.console,
+            });
+        }
+
+        return this.downloadSchedulers[host];
+    }
+
+    private updateSchedulers() {
+        for (const scheduler of Object.values(this.schedulers)) {
+            scheduler.options = this.getSchedulerOptions();
+        }
+
+        if (this.thumbnailScheduler) {
+            this.thumbnailScheduler.options = this.getThumbnailSchedulerOptions();
+        }
+    }
+
+    private getThumbnailSchedulerOptions() {
+        return {
+            maxConcurrent: this.storageSettings.values.thumbnailConcurrency,
+            // FFmpeg runs have their own timeout
+            timeoutMs: 0,
+            console: this.console,
+        };
+    }
+
+    /**
+     * Limits the FFmpeg processes of all the cameras, i.e. thumbnails, transcodings and repairs
+     */
+    getThumbnailScheduler() {
+        if (!this.thumbnailScheduler) {
+            this.thumbnailScheduler = new RequestScheduler('thumbnails', this.getThumbnailSchedulerOptions());
+        }
+
+        return this.thumbnailScheduler;
+    }
+
+    /**
+     * Cameras on the same NVR or Home Hub share a single session
+     */
+    getSession(deviceId: string, props: { host: string, username: string, password: string, connection: ReolinkConnectionOptions }) {
+        const { host, username, password, connection } = props;
+        const key = `${username}:${password}@${host}:${JSON.stringify(connection)}`;
+
+        let entry = this.sessions[key];
+        if (!entry) {
+            entry = {
+                session: new ReolinkSession(host, username, password, this.console, this.getScheduler(host), connection),
+                deviceIds: new Set(),
+            };
+            this.sessions[key] = entry;
+        }
+
+        for (const [otherKey, otherEntry] of Object.entries(this.sessions)) {
+            if (otherKey !== key) {
+                this.releaseSessionEntry(otherKey, otherEntry, deviceId);
+            }
+        }
+        entry.deviceIds.add(deviceId);
+
+        return entry.session;
+    }
+
+    releaseSession(deviceId: string) {
+        for (const [key, entry] of Object.entries(this.sessions)) {
+            this.releaseSessionEntry(key, entry, deviceId);
+        }
+    }
+
+    private releaseSessionEntry(key: string, entry: { session: ReolinkSession, deviceIds: Set<string> }, deviceId: string) {
+        if (!entry.deviceIds.delete(deviceId) || entry.deviceIds.size) {
+            return;
+        }
+
+        delete this.sessions[key];
+        entry.session.close().catch(this.console.log);
     }
 
     async onRequest(request: HttpRequest, response: HttpResponse): Promise<void> {
@@ -30,9 +317,30 @@ export default class ReolinkVideoclipssProvider extends ScryptedDeviceBase imple
 
         try {
             const [_, __, ___, ____, _____, webhook] = url.pathname.split('/');
-            const { deviceId, videoclipPath, parameters } = JSON.parse(params);
+
+            if (!verifyWebhookRequest(this.getWebhookSecret(), webhook, params, url.searchParams.get('signature'))) {
+                response.send('Invalid signature', { code: 403 });
+                return;
+            }
+
+            const { deviceId, clipId, parameters, expires, segment } = JSON.parse(params);
+            if (!expires || expires < Date.now()) {
+                response.send('URL expired', { code: 403 });
+                return;
+            }
+
             const dev = this.mixinsMap[deviceId];
+            if (!dev) {
+                response.send(`Device ${deviceId} not found`, { code: 404 });
+                return;
+            }
+
             const devConsole = dev.console;
+            const videoclipPath = clipId ? dev.resolveClipId(clipId) : undefined;
+            if (clipId && !videoclipPath) {
+                response.send(`Videoclip ${clipId} not found`, { code: 404 });
+                return;
+            }
             // devConsole.log(`Request with parameters: ${JSON.stringify({
             //     webhook,
             //     deviceId,
@@ -43,110 +351,95 @@ export default class ReolinkVideoclipssProvider extends ScryptedDeviceBase imple
             try {
                 if (webhook === 'videoclip') {
 
-                    if (dev.storageSettings.values.ftp) {
-                        // devConsole.log(`Videoclip requested via FTP: ${JSON.stringify({
-                        //     videoclipPath,
-                        //     deviceId,
-                        // })}`);
-
-                        const stat = fs.statSync(videoclipPath);
-                        const fileSize = stat.size;
-                        const range = request.headers.range;
-
-                        if (range) {
-                            const parts = range.replace(/bytes=/, "").split("-");
-                            const start = parseInt(parts[0], 10);
-                            const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1;
-
-                            const chunksize = (end - start) + 1;
-                            const file = fs.createReadStream(videoclipPath, { start, end });
-
-                            const sendVideo = async () => {
-                                return new Promise<void>((resolve, reject) => {
-                                    try {
-                                        response.sendStream((async function* () {
-                                            for await (const chunk of file) {
-                                                yield chunk;
-                                            }
-                                        })(), {
-                                            code: 206,
-                                            headers: {
-                                                'Content-Range': `bytes ${start}-${end}/${fileSize}`,
-                                                'Accept-Ranges': 'bytes',
-                                                'Content-Length': chunksize,
-                                                'Content-Type': 'video/mp4',
-                                            }
-                                        });
-
-                                        resolve();
-                                    } catch (err) {
-                                        reject(err);
-                                    }
-                                });
-                            };
-
-                            try {
-                                await sendVideo();
-                                return;
-                            } catch (e) {
-                                devConsole.log('Error fetching videoclip', e);
+                    // HEAD requests don't start a transcoding, they get the headers of the original clip
+                    const transcoded = await dev.getTranscodedVideoclip(videoclipPath, request.method !== 'HEAD');
+                    if (transcoded?.cachedPath) {
+                        sendLocalVideoclip(request, response, transcoded.cachedPath);
+                        return;
+                    }
+
+                    if (transcoded?.job) {
+                        await sendGrowingVideoclip(request, response, transcoded.job);
+                        return;
+                    }
+
+                    const localPath = await dev.getLocalVideoclipPath(videoclipPath);
+                    if (localPath) {
+                        sendLocalVideoclip(request, response, localPath);
+                        return;
+                    }
+
+                    const api = await dev.getClient();
+                    await api.login();
+                    const { playbackPathWithHost, downloadPathWithHost } = await api.getVideoClipUrl(videoclipPath, deviceId);
+
+                    // The slot is held for the whole stream, the camera serves only a few at a time.
+                    // Being long running, it doesn't block the searches and the logins
+                    const release = await api.session.scheduler.acquire('playback', 'Playback', true);
+                    try {
+                        await proxyCameraVideoclip({
+                            request,
+                            response,
+                            // Some firmwares reject Playback, Download serves the same file
+                            urls: [playbackPathWithHost, downloadPathWithHost],
+                            get: (url, options, callback) => api.session.get(url, options, callback),
+                            console: devConsole,
+                            size: Number(dev.searchCache?.getVideoclip(videoclipPath)?.size) || undefined,
+                        });
+                    } finally {
+                        release();
+                    }
+                    return;
+                } else if (webhook === 'hls') {
+                    if (!segment) {
+                        const playlist = await dev.getHlsPlaylist(videoclipPath);
+                        response.send(playlist, {
+                            headers: {
+                                'Content-Type': 'application/vnd.apple.mpegurl',
+                                'Cache-Control': 'no-cache',
                             }
-                        } else {
-                            response.sendFile(videoclipPath, {
-                                code: 200,
-                                headers: {
-                                    'Content-Length': fileSize,
-                                    'Content-Type': 'video/mp4',
-                                }
-                            });
-                        }
+                        });
+                        return;
+                    }
 
+                    const segmentPath = await dev.getHlsSegmentPath(videoclipPath, segment);
+                    if (!segmentPath) {
+                        response.send(`Segment ${segment} not found`, { code: 404 });
                         return;
-                    } else {
-                        const api = await dev.getClient();
-
-                        const { playbackPathWithHost } = await api.getVideoClipUrl(videoclipPath, deviceId);
-                        // devConsole.log(`Videoclip requested via API: ${JSON.stringify({
-                        //     videoclipPath,
-                        //     deviceId,
-                        //     playbackPathWithHost,
-                        // })}`);
-
-                        const sendVideo = async () => {
-                            return new Promise<void>((resolve, reject) => {
-                                http.get(playbackPathWithHost, { headers: request.headers }, (httpResponse) => {
-                                    if (httpResponse.statusCode[0] === 400) {
-                                        reject(new Error(`Error loading the video: ${httpResponse.statusCode} - ${httpResponse.statusMessage}. Headers: ${JSON.stringify(request.headers)}`));
-                                        return;
-                                    }
-
-                                    try {
-                                        response.sendStream((async function* () {
-                                            for await (const chunk of httpResponse) {
-                                                yield chunk;
-                                            }
-                                        })(), {
-                                            headers: httpResponse.headers
-                                        });
-
-                                        resolve();
-                                    } catch (err) {
-                                        reject(err);
-                                    }
-                                }).on('error', (e) => {
-                                    devConsole.log('Error fetching videoclip', e);
-                                    reject(e)
-                                });
-                            });
-                        };
-
-                        try {
-                            await sendVideo();
-                            return;
-                        } catch (e) {
-                            devConsole.log('Error fetching videoclip', e);
+                    }
+
+                    sendLocalVideoclip(request, response, segmentPath, 'video/mp2t');
+                    return;
+                } else if (webhook === 'metrics') {
+                    // The client is not created here, the login would wake a sleeping camera
+                    const api = await dev.canReachCamera() ? await dev.getClient() : dev.client;
+                    const host = api?.host ?? (await dev.getDeviceProperties()).host;
+                    response.send(JSON.stringify({
+                        host,
+                        ...(api?.session.scheduler ?? this.getScheduler(host)).getMetrics(),
+                    }), {
+                        headers: {
+                            'Content-Type': 'application/json',
                         }
+                    });
+                    return;
+                } else if (webhook === 'calendar') {
+                    // Not signed, the same URL serves all the months
+                    const now = new Date();
+                    const year = Number(url.searchParams.get('year') || now.getFullYear());
+                    const month = Number(url.searchParams.get('month') || now.getMonth() + 1);
+                    if (!Number.isInteger(year) || !Number.isInteger(month) || month < 1 || month > 12) {
+                        response.send('Invalid year or month', { code: 400 });
+                        return;
                     }
+
+                    const calendar = await dev.getRecordingCalendar(year, month);
+                    response.send(JSON.stringify(calendar), {
+                        headers: {
+                            'Content-Type': 'application/json',
+                        }
+                    });
+                    return;
                 } else
                     if (webhook === 'thumbnail') {
                         devConsole.log(`Thumbnail requested: ${JSON.stringify({
@@ -0,0 +1,472 @@
+import fs from 'fs';
+import child_process from 'child_process';
+import sdk from '@scrypted/sdk';
+
+export interface VideoclipMetadata {
+    durationMs?: number;
+    width?: number;
+    height?: number;
+    codec?: string;
+    audioCodec?: string;
+    frameRate?: number;
+    missingMoov?: boolean;
+}
+
+export interface VideoDecoderConfig {
+    // h264 or hevc, as the raw stream formats of FFmpeg
+    codec: string;
+    // Size of the length prefixing the NAL units in the samples
+    lengthSize: number;
+    // VPS, SPS and PPS
+    parameterSets: Buffer[];
+    frameRate?: number;
+}
+
+interface Box {
+    type: string;
+    start: number;
+    headerSize: number;
+    size: number;
+}
+
+const maxMoovSize = 1024 * 1024 * 64;
+const maxRecoverySize = 1024 * 1024 * 1024;
+const maxNalUnitSize = 1024 * 1024 * 8;
+// Fields of the visual sample entry before its child boxes
+const visualSampleEntrySize = 78;
+const annexBStartCode = Buffer.from([0, 0, 0, 1]);
+
+// Sample entry types to the codec names reported by FFmpeg
+const codecNames: Record<string, string> = {
+    avc1: 'h264',
+    avc3: 'h264',
+    hvc1: 'hevc',
+    hev1: 'hevc',
+    mp4a: 'aac',
+};
+
+const readBoxHeader = async (handle: fs.promises.FileHandle, position: number, fileSize: number): Promise<Box> => {
+    if (position + 8 > fileSize) {
+        return;
+    }
+
+    const header = Buffer.alloc(16);
+    await handle.read(header, 0, 16, position);
+    let size = header.readUInt32BE(0);
+    const type = header.toString('latin1', 4, 8);
+    let headerSize = 8;
+
+    if (size === 1) {
+        size = Number(header.readBigUInt64BE(8));
+        headerSize = 16;
+    } else if (size === 0) {
+        size = fileSize - position;
+    }
+
+    if (size < headerSize) {
+        return;
+    }
+
+    return { type, start: position, headerSize, size };
+}
+
+const iterateBoxes = function* (buffer: Buffer, start: number, end: number) {
+    let position = start;
+    while (position + 8 <= end) {
+        let size = buffer.readUInt32BE(position);
+        const type = buffer.toString('latin1', position + 4, position + 8);
+        let headerSize = 8;
+
+        if (size === 1) {
+            size = Number(buffer.readBigUInt64BE(position + 8));
+            headerSize = 16;
+        } else if (size === 0) {
+            size = end - position;
+        }
+
+        if (size < headerSize || position + size > end) {
+            return;
+        }
+
+        yield { type, start: position, headerSize, size } as Box;
+        position += size;
+    }
+}
+
+const findChild = (buffer: Buffer, parent: Box, type: string) => {
+    for (const box of iterateBoxes(buffer, parent.start + parent.headerSize, parent.start + parent.size)) {
+        if (box.type === type) {
+            return box;
+        }
+    }
+}
+
+const parseMovieHeader = (buffer: Buffer, box: Box) => {
+    const offset = box.start + box.headerSize;
+    const version = buffer.readUInt8(offset);
+
+    if (version === 1) {
+        const timescale = buffer.readUInt32BE(offset + 20);
+        const duration = Number(buffer.readBigUInt64BE(offset + 24));
+        return { timescale, duration };
+    }
+
+    const timescale = buffer.readUInt32BE(offset + 12);
+    const duration = buffer.readUInt32BE(offset + 16);
+    return { timescale, duration };
+}
+
+const parseTrack = (buffer: Buffer, trak: Box) => {
+    const mdia = findChild(buffer, trak, 'mdia');
+    const hdlr = mdia && findChild(buffer, mdia, 'hdlr');
+    const mdhd = mdia && findChild(buffer, mdia, 'mdhd');
+    if (!hdlr || !mdhd) {
+        return;
+    }
+
+    const handlerType = buffer.toString('latin1', hdlr.start + hdlr.headerSize + 8, hdlr.start + hdlr.headerSize + 12);
+    const { timescale, duration } = parseMovieHeader(buffer, mdhd);
+
+    const minf = findChild(buffer, mdia, 'minf');
+    const stbl = minf && findChild(buffer, minf, 'stbl');
+    const stsd = stbl && findChild(buffer, stbl, 'stsd');
+    const stts = stbl && findChild(buffer, stbl, 'stts');
+
+    // First sample entry right after version, flags and entry count
+    const sampleEntryType = stsd ? buffer.toString('latin1', stsd.start + stsd.headerSize + 12, stsd.start + stsd.headerSize + 16) : undefined;
+    const codec = codecNames[sampleEntryType] ?? sampleEntryType;
+
+    let sampleCount = 0;
+    if (stts) {
+        const offset = stts.start + stts.headerSize;
+        const entries = buffer.readUInt32BE(offset + 4);
+        for (let i = 0; i < entries; i++) {
+            sampleCount += buffer.readUInt32BE(offset + 8 + i * 8);
+        }
+    }
+
+    let width: number;
+    let height: number;
+    const tkhd = findChild(buffer, trak, 'tkhd');
+    if (tkhd) {
+        // Width and height are the last 2 fixed point 16.16 values
+        const end = tkhd.start + tkhd.size;
+        width = buffer.readUInt32BE(end - 8) >> 16;
+        height = buffer.readUInt32BE(end - 4) >> 16;
+    }
+
+    return {
+        handlerType,
+        codec,
+        stsd,
+        width,
+        height,
+        durationSeconds: timescale ? duration / timescale : undefined,
+        sampleCount,
+    };
+}
+
+const readParameterSets = (buffer: Buffer, position: number, count: number, parameterSets: Buffer[]) => {
+    for (let i = 0; i < count; i++) {
+        const length = buffer.readUInt16BE(position);
+        parameterSets.push(buffer.subarray(position + 2, position + 2 + length));
+        position += 2 + length;
+    }
+
+    return position;
+}
+
+/**
+ * Parameter sets and NAL unit length size from the avcC or hvcC box of the first sample entry
+ */
+const parseDecoderConfig = (buffer: Buffer, stsd: Box, codec: string) => {
+    const entryStart = stsd.start + stsd.headerSize + 8;
+    const entry: Box = {
+        type: buffer.toString('latin1', entryStart + 4, entryStart + 8),
+        start: entryStart,
+        headerSize: 8 + visualSampleEntrySize,
+        size: buffer.readUInt32BE(entryStart),
+    };
+    const configBox = findChild(buffer, entry, codec === 'h264' ? 'avcC' : 'hvcC');
+    if (!configBox) {
+        return;
+    }
+
+    const offset = configBox.start + configBox.headerSize;
+    const parameterSets: Buffer[] = [];
+
+    if (codec === 'h264') {
+        let position = offset + 5;
+        position = readParameterSets(buffer, position + 1, buffer[position] & 0x1f, parameterSets);
+        readParameterSets(buffer, position + 1, buffer[position], parameterSets);
+
+        return { lengthSize: (buffer[offset + 4] & 3) + 1, parameterSets };
+    }
+
+    let position = offset + 23;
+    for (let i = 0; i < buffer[offset + 22]; i++) {
+        position = readParameterSets(buffer, position + 3, buffer.readUInt16BE(position + 1), parameterSets);
+    }
+
+    return { lengthSize: (buffer[offset + 21] & 3) + 1, parameterSets };
+}
+
+const findMoovBox = async (handle: fs.promises.FileHandle, fileSize: number) => {
+    let position = 0;
+    while (true) {
+        const box = await readBoxHeader(handle, position, fileSize);
+        if (!box) {
+            return;
+        }
+        if (box.type === 'moov') {
+            return box.start + box.size <= fileSize ? box : undefined;
+        }
+        position += box.size;
+    }
+}
+
+/**
+ * Uploads interrupted before the end miss the moov box, which is written last
+ */
+export const hasMoovBox = async (filePath: string) => {
+    const handle = await fs.promises.open(filePath, 'r');
+
+    try {
+        const { size: fileSize } = await handle.stat();
+        return !!(await findMoovBox(handle, fileSize));
+    } finally {
+        await handle.close();
+    }
+}
+
+const readMoovBox = async (filePath: string) => {
+    const handle = await fs.promises.open(filePath, 'r');
+
+    try {
+        const { size: fileSize } = await handle.stat();
+
+        const moov = await findMoovBox(handle, fileSize);
+        if (!moov || moov.size > maxMoovSize) {
+            return;
+        }
+
+        const buffer = Buffer.alloc(moov.size);
+        await handle.read(buffer, 0, moov.size, moov.start);
+
+        return { buffer, moovBox: { ...moov, start: 0 } as Box };
+    } finally {
+        await handle.close();
+    }
+}
+
+/**
+ * Reads the metadata from the moov box, returns undefined if the file doesn't have one
+ */
+export const parseMp4Metadata = async (filePath: string): Promise<VideoclipMetadata> => {
+    const moov = await readMoovBox(filePath);
+    if (!moov) {
+        return;
+    }
+
+    const { buffer, moovBox } = moov;
+    const metadata: VideoclipMetadata = {};
+    const mvhd = findChild(buffer, moovBox, 'mvhd');
+    if (mvhd) {
+        const { timescale, duration } = parseMovieHeader(buffer, mvhd);
+        if (timescale) {
+            metadata.durationMs = Math.round(duration / timescale * 1000);
+        }
+    }
+
+    for (const box of iterateBoxes(buffer, moovBox.headerSize, moovBox.size)) {
+        if (box.type !== 'trak') {
+            continue;
+        }
+
+        const track = parseTrack(buffer, box);
+        if (track?.handlerType === 'vide') {
+            metadata.codec = track.codec;
+            metadata.width = track.width;
+            metadata.height = track.height;
+            if (track.durationSeconds && track.sampleCount) {
+                metadata.frameRate = Math.round(track.sampleCount / track.durationSeconds);
+            }
+        } else if (track?.handlerType === 'soun') {
+            metadata.audioCodec = track.codec;
+        }
+    }
+
+    return metadata;
+}
+
+/**
+ * Decoder configuration of the H.264 or H.265 track, to recover the clips of the same camera missing the moov box
+ */
+export const readVideoDecoderConfig = async (filePath: string): Promise<VideoDecoderConfig> => {
+    const moov = await readMoovBox(filePath);
+    if (!moov) {
+        return;
+    }
+
+    const { buffer, moovBox } = moov;
+    for (const box of iterateBoxes(buffer, moovBox.headerSize, moovBox.size)) {
+        const track = box.type === 'trak' ? parseTrack(buffer, box) : undefined;
+        if (track?.handlerType !== 'vide' || !['h264', 'hevc'].includes(track.codec) || !track.stsd) {
+            continue;
+        }
+
+        const config = parseDecoderConfig(buffer, track.stsd, track.codec);
+        if (!config) {
+            return;
+        }
+
+        return {
+            codec: track.codec,
+            ...config,
+            frameRate: track.durationSeconds && track.sampleCount ? Math.round(track.sampleCount / track.durationSeconds) : undefined,
+        };
+    }
+}
+
+const isNalUnitHeader = (codec: string, data: Buffer, position: number) => {
+    const byte = data[position];
+    if (byte & 0x80) {
+        return false;
+    }
+
+    if (codec === 'h264') {
+        const type = byte & 0x1f;
+        const referenced = !!(byte & 0x60);
+        // Slices, SEI, SPS, PPS and access unit delimiters, with their nal_ref_idc rules
+        return ([1, 5, 7, 8].includes(type) && (referenced || type === 1)) || ([6, 9].includes(type) && !referenced);
+    }
+
+    const type = (byte >> 1) & 0x3f;
+    const layerId = ((byte & 1) << 5) | (data[position + 1] >> 3);
+    const temporalId = data[position + 1] & 7;
+    return layerId === 0 && temporalId > 0 && (type <= 9 || (type >= 16 && type <= 21) || (type >= 32 && type <= 35) || type === 39 || type === 40);
+}
+
+/**
+ * Untrunc style recovery of the video of a clip missing the moov box. The length prefixed NAL units
+ * are scanned in the mdat and written as an Annex B stream, starting with the parameter sets of the
+ * reference clip. The audio samples between them are skipped. Returns the number of recovered NAL units
+ */
+export const recoverVideoStream = async (props: { filePath: string, config: VideoDecoderConfig, outputPath: string }) => {
+    const { filePath, config, outputPath } = props;
+    const { codec, lengthSize, parameterSets } = config;
+
+    const handle = await fs.promises.open(filePath, 'r');
+    let data: Buffer;
+    try {
+        const { size: fileSize } = await handle.stat();
+        let position = 0;
+        let mdat: Box;
+        while (!mdat) {
+            const box = await readBoxHeader(handle, position, fileSize);
+            if (!box) {
+                throw new Error('mdat box not found');
+            }
+            if (box.type === 'mdat') {
+                mdat = box;
+            }
+            position += box.size;
+        }
+
+        // The size of the mdat could be the expected one, beyond the truncation
+        const start = mdat.start + mdat.headerSize;
+        const end = Math.min(mdat.start + mdat.size, fileSize);
+        if (end - start > maxRecoverySize) {
+            throw new Error(`mdat of ${end - start} bytes is too large to be recovered`);
+        }
+
+        data = Buffer.alloc(end - start);
+        await handle.read(data, 0, data.length, start);
+    } finally {
+        await handle.close();
+    }
+
+    const getNalUnitEnd = (position: number) => {
+        if (position + lengthSize + 2 > data.length) {
+            return;
+        }
+
+        const length = data.readUIntBE(position, lengthSize);
+        const end = position + lengthSize + length;
+        if (length < 2 || length > maxNalUnitSize || end > data.length || !isNalUnitHeader(codec, data, position + lengthSize)) {
+            return;
+        }
+
+        return end;
+    }
+
+    const chunks: Buffer[] = parameterSets.flatMap(parameterSet => [annexBStartCode, parameterSet]);
+    let recovered = 0;
+    let position = 0;
+    let inSync = false;
+    while (position < data.length) {
+        const end = getNalUnitEnd(position);
+        // Resyncing after the audio, 2 NAL units in a row avoid matching random bytes
+        if (end !== undefined && (inSync || end === data.length || getNalUnitEnd(end) !== undefined)) {
+            chunks.push(annexBStartCode, data.subarray(position + lengthSize, end));
+            recovered++;
+            position = end;
+            inSync = true;
+        } else {
+            position++;
+            inSync = false;
+        }
+    }
+
+    await fs.promises.writeFile(outputPath, Buffer.concat(chunks));
+
+    return recovered;
+}
+
+/**
+ * Fallback for the files the moov parsing can't handle, i.e. fragmented mp4, and for the clips on the camera.
+ * The stream info printed by FFmpeg is parsed, ffprobe is not shipped with Scrypted
+ */
+export const probeMetadata = async (filePath: string, signal?: AbortSignal): Promise<VideoclipMetadata> => {
+    const ffmpegPath = await sdk.mediaManager.getFFmpegPath();
+
+    const output = await new Promise<string>((resolve, reject) => {
+        // Without an output FFmpeg prints the input info and exits with an error
+        child_process.execFile(ffmpegPath, [
+            '-hide_banner',
+            '-i', filePath,
+        ], { timeout: 20000, signal, killSignal: 'SIGKILL' }, (error, stdout, stderr) => {
+            if (error?.killed || error?.name === 'AbortError' || !/Input #0/.test(stderr)) {
+                reject(new Error(`Error probing ${filePath}: ${error?.message ?? ''} ${stderr.trim()}`));
+            } else {
+                resolve(stderr);
+            }
+        });
+    });
+
+    const duration = /Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/.exec(output);
+    const videoStream = /Stream #\d+:\d+.*?: Video: (\w+)(.*)/.exec(output);
+    const audioStream = /Stream #\d+:\d+.*?: Audio: (\w+)/.exec(output);
+    const size = videoStream && /, (\d+)x(\d+)/.exec(videoStream[2]);
+    const frameRate = videoStream && /, (\d+(?:\.\d+)?) fps/.exec(videoStream[2]);
+
+    return {
+        durationMs: duration ?
+            Math.round((Number(duration[1]) * 3600 + Number(duration[2]) * 60 + Number(duration[3])) * 1000) :
+            undefined,
+        width: size ? Number(size[1]) : undefined,
+        height: size ? Number(size[2]) : undefined,
+        codec: videoStream?.[1],
+        audioCodec: audioStream?.[1],
+        frameRate: frameRate ? Math.round(Number(frameRate[1])) : undefined,
+    };
+}
+
+export const getVideoclipMetadata = async (filePath: string, signal?: AbortSignal) => {
+    const metadata = await parseMp4Metadata(filePath).catch(() => undefined as VideoclipMetadata);
+    if (metadata?.durationMs) {
+        return metadata;
+    }
+
+    return probeMetadata(filePath, signal);
+}
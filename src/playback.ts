@@ -0,0 +1,314 @@
+import { HttpRequest, HttpResponse } from '@scrypted/sdk';
+import fs from 'fs';
+import http from 'http';
+import { Readable } from 'stream';
+import { finished } from 'stream/promises';
+import { parseRangeHeader } from './utils';
+
+export type HttpGet = (url: string, options: http.RequestOptions, callback: (res: http.IncomingMessage) => void) => http.ClientRequest;
+
+// Paused players reconnect with a Range once they need more data
+const cameraIdleTimeoutMs = 1000 * 60;
+const growingFilePollMs = 500;
+
+const emptyStream = async function* (): AsyncGenerator<Buffer> { };
+
+/**
+ * Responses without body, i.e. HEAD. The body of send would override the Content-Length
+ */
+const sendHeaders = (response: HttpResponse, code: number, headers: object) => {
+    response.sendStream(emptyStream(), { code, headers });
+}
+
+const sendRangeNotSatisfiable = (response: HttpResponse, size: number) => {
+    response.send('Range not satisfiable', {
+        code: 416,
+        headers: {
+            'Accept-Ranges': 'bytes',
+            'Content-Range': `bytes */${size ?? '*'}`,
+        }
+    });
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Reads the file while being written, until the writer is finished or the end is reached
+ */
+const readGrowingFile = async function* (file: GrowingFile, start = 0, end = Infinity) {
+    let handle: fs.promises.FileHandle;
+    try {
+        while (!handle) {
+            const { started, finished, partPath, finalPath } = file;
+            if (started || finished) {
+                // Once finished the part file is renamed, or removed on failure
+                handle = await fs.promises.open(finished ? finalPath : partPath, 'r').catch(() => undefined as fs.promises.FileHandle);
+            }
+
+            if (!handle) {
+                if (finished) {
+                    return;
+                }
+                await sleep(growingFilePollMs);
+            }
+        }
+
+        const buffer = Buffer.alloc(1024 * 64);
+        let position = start;
+        while (position <= end) {
+            const { finished } = file;
+            const length = Math.min(buffer.length, end + 1 - position);
+            const { bytesRead } = await handle.read(buffer, 0, length, position);
+            if (bytesRead) {
+                position += bytesRead;
+                yield Buffer.from(buffer.subarray(0, bytesRead));
+            } else if (finished) {
+                return;
+            } else {
+                await sleep(growingFilePollMs);
+            }
+        }
+    } finally {
+        await handle?.close();
+    }
+}
+
+/**
+ * Bytes already written, a leftover part file from a previous run doesn't count
+ */
+const getWrittenSize = async (file: GrowingFile) => {
+    const { started, finished, partPath, finalPath } = file;
+    if (!started && !finished) {
+        return 0;
+    }
+
+    const stat = await fs.promises.stat(finished ? finalPath : partPath).catch(() => undefined as fs.Stats);
+    return stat?.size ?? 0;
+}
+
+const sliceStream = async function* (stream: Readable, start: number, end: number) {
+    let position = 0;
+    try {
+        for await (const chunk of stream as AsyncIterable<Buffer>) {
+            const chunkEnd = position + chunk.length;
+            if (chunkEnd > start) {
+                yield chunk.subarray(Math.max(0, start - position), Math.min(chunk.length, end + 1 - position));
+            }
+            position = chunkEnd;
+
+            if (position > end) {
+                break;
+            }
+        }
+    } finally {
+        stream.destroy();
+    }
+}
+
+/**
+ * Total size of the file from the Content-Range of a 206 or the Content-Length of a 200
+ */
+const getResponseSize = (res: http.IncomingMessage) => {
+    if (res.statusCode === 206) {
+        const total = res.headers['content-range']?.split('/')[1];
+        return total && total !== '*' ? Number(total) : undefined;
+    }
+
+    const contentLength = res.headers['content-length'];
+    return contentLength ? Number(contentLength) : undefined;
+}
+
+const isVideoResponse = (res: http.IncomingMessage) => {
+    // Firmwares answer the rejected commands with a JSON error and a 200
+    return [200, 206].includes(res.statusCode) && !/json|text|html/i.test(res.headers['content-type'] ?? '');
+}
+
+export const sendLocalVideoclip = (request: HttpRequest, response: HttpResponse, localPath: string, contentType = 'video/mp4') => {
+    const { size } = fs.statSync(localPath);
+    const range = parseRangeHeader(request.headers?.range, size);
+    if (range === null) {
+        sendRangeNotSatisfiable(response, size);
+        return;
+    }
+
+    const { start, end } = range ?? { start: 0, end: size - 1 };
+    const code = range ? 206 : 200;
+    const headers = {
+        'Accept-Ranges': 'bytes',
+        'Content-Length': end - start + 1,
+        'Content-Type': contentType,
+        ...(range ? { 'Content-Range': `bytes ${start}-${end}/${size}` } : {}),
+    };
+
+    if (request.method === 'HEAD' || !size) {
+        sendHeaders(response, code, headers);
+        return;
+    }
+
+    const file = fs.createReadStream(localPath, { start, end });
+    response.sendStream(sliceStream(file, 0, Infinity), { code, headers });
+}
+
+export interface GrowingFile {
+    partPath: string;
+    finalPath: string;
+    // The part file is being written
+    started: boolean;
+    finished: boolean;
+}
+
+/**
+ * Streams a file while it's being written, i.e. a fragmented mp4 from FFmpeg. The size is not known yet,
+ * ranges within the bytes already written are served with an unknown total, the others get the whole file
+ */
+export const sendGrowingVideoclip = async (request: HttpRequest, response: HttpResponse, file: GrowingFile) => {
+    // Completed in the meantime, the size is known
+    if (file.finished && fs.existsSync(file.finalPath)) {
+        sendLocalVideoclip(request, response, file.finalPath);
+        return;
+    }
+
+    const headers: Record<string, string | number> = {
+        'Accept-Ranges': 'bytes',
+        'Content-Type': 'video/mp4',
+        'Cache-Control': 'no-cache',
+    };
+
+    if (request.method === 'HEAD') {
+        sendHeaders(response, 200, headers);
+        return;
+    }
+
+    // Suffix ranges need the final size, they are ignored
+    const rangeHeader = request.headers?.range;
+    const hasStart = /^bytes=\d/.test(rangeHeader?.trim() ?? '');
+    const written = hasStart ? await getWrittenSize(file) : 0;
+    const range = hasStart ? parseRangeHeader(rangeHeader, written) : undefined;
+
+    if (range) {
+        const { start, end } = range;
+        response.sendStream(readGrowingFile(file, start, end), {
+            code: 206,
+            headers: {
+                ...headers,
+                'Content-Length': end - start + 1,
+                'Content-Range': `bytes ${start}-${end}/*`,
+            },
+        });
+        return;
+    }
+
+    // Beyond the bytes written, except the start of a file not written yet
+    if (range === null && Number(/^bytes=(\d+)/.exec(rangeHeader.trim())[1]) > 0) {
+        sendRangeNotSatisfiable(response, undefined);
+        return;
+    }
+
+    response.sendStream(readGrowingFile(file), { code: 200, headers });
+}
+
+/**
+ * Streams a clip from the camera, trying the URLs in order until one returns a video. The camera Range support
+ * varies by firmware, ranges ignored by the camera are served skipping the bytes before them.
+ * Resolves once the camera stream is closed
+ */
+export const proxyCameraVideoclip = async (props: {
+    request: HttpRequest,
+    response: HttpResponse,
+    urls: string[],
+    get: HttpGet,
+    console: Console,
+    // From the search results, used when the camera doesn't report it
+    size?: number,
+}) => {
+    const { request, response, urls, get, console } = props;
+    const rangeHeader = request.headers?.range;
+
+    if (props.size && parseRangeHeader(rangeHeader, props.size) === null) {
+        sendRangeNotSatisfiable(response, props.size);
+        return;
+    }
+
+    let lastStatus: number;
+    for (const url of urls) {
+        const command = new URL(url).searchParams.get('cmd');
+
+        let res: http.IncomingMessage;
+        try {
+            res = await new Promise<http.IncomingMessage>((resolve, reject) => {
+                const req = get(url, { headers: rangeHeader ? { Range: rangeHeader } : {} }, resolve);
+                req.setTimeout(cameraIdleTimeoutMs, () => req.destroy(new Error(`No data from the camera in ${cameraIdleTimeoutMs}ms`)));
+                req.on('error', reject);
+            });
+        } catch (e) {
+            console.log(`${command} request failed`, e.message);
+            lastStatus = undefined;
+            continue;
+        }
+
+        if (res.statusCode === 416) {
+            res.resume();
+            sendRangeNotSatisfiable(response, getResponseSize(res) ?? props.size);
+            return;
+        }
+
+        if (!isVideoResponse(res)) {
+            console.log(`${command} rejected by the camera: ${JSON.stringify({
+                statusCode: res.statusCode,
+                contentType: res.headers['content-type'],
+            })}`);
+            lastStatus = res.statusCode;
+            res.resume();
+            continue;
+        }
+
+        const size = getResponseSize(res) ?? props.size;
+        const contentType = /video/i.test(res.headers['content-type'] ?? '') ? res.headers['content-type'] : 'video/mp4';
+
+        let code = res.statusCode;
+        let start = 0;
+        let end = Infinity;
+        const headers: Record<string, string | number> = {
+            'Content-Type': contentType,
+        };
+
+        if (res.statusCode === 206) {
+            headers['Accept-Ranges'] = 'bytes';
+            headers['Content-Range'] = res.headers['content-range'];
+            if (res.headers['content-length']) {
+                headers['Content-Length'] = res.headers['content-length'];
+            }
+        } else if (size) {
+            const range = parseRangeHeader(rangeHeader, size);
+            if (range === null) {
+                res.destroy();
+                sendRangeNotSatisfiable(response, size);
+                return;
+            }
+
+            start = range?.start ?? 0;
+            end = range?.end ?? size - 1;
+            code = range ? 206 : 200;
+            headers['Accept-Ranges'] = 'bytes';
+            headers['Content-Length'] = end - start + 1;
+            if (range) {
+                headers['Content-Range'] = `bytes ${start}-${end}/${size}`;
+            }
+        }
+
+        if (request.method === 'HEAD') {
+            res.destroy();
+            sendHeaders(response, code, headers);
+            return;
+        }
+
+        const done = finished(res).catch(() => { });
+        response.sendStream(sliceStream(res, start, end), { code, headers });
+        await done;
+        return;
+    }
+
+    response.send('Videoclip not available on the camera', {
+        code: lastStatus === 404 ? 404 : 502,
+    });
+}
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import { runFFmpeg } from './ffmpeg';
+import { hasMoovBox, readVideoDecoderConfig, recoverVideoStream } from './mp4';
+
+const repairTimeout = 1000 * 60 * 10;
+// Used when the reference clip doesn't tell it
+const defaultFrameRate = 25;
+
+/**
+ * Repairs a clip missing the moov box, i.e. an upload interrupted by a power loss. The video is
+ * recovered from the mdat with the codec configuration of a complete clip of the same camera and
+ * remuxed by FFmpeg, the audio is dropped. The repaired clip replaces the truncated one
+ */
+export const repairVideoclip = async (props: {
+    filePath: string,
+    referencePath: string,
+    console: Console,
+    signal?: AbortSignal,
+}) => {
+    const { filePath, referencePath, console, signal } = props;
+
+    const config = await readVideoDecoderConfig(referencePath);
+    if (!config) {
+        throw new Error(`No H.264 or H.265 configuration in the reference clip ${referencePath}`);
+    }
+
+    // Not mp4 extensions, to be ignored by the index
+    const streamPath = `${filePath}.${config.codec}.repairing`;
+    const repairedPath = `${filePath}.repairing`;
+
+    try {
+        const recovered = await recoverVideoStream({ filePath, config, outputPath: streamPath });
+        if (!recovered) {
+            throw new Error('No video found in the mdat');
+        }
+
+        await runFFmpeg({
+            args: [
+                '-fflags', '+genpts',
+                '-framerate', `${config.frameRate || defaultFrameRate}`,
+                '-f', config.codec,
+                '-i', streamPath,
+                '-c', 'copy',
+                '-movflags', '+faststart',
+                '-f', 'mp4',
+                repairedPath,
+            ],
+            console,
+            timeout: repairTimeout,
+            signal,
+        });
+
+        if (!await hasMoovBox(repairedPath)) {
+            throw new Error('Remuxed file is still missing the moov atom');
+        }
+
+        await fs.promises.rename(repairedPath, filePath);
+
+        return recovered;
+    } finally {
+        await fs.promises.rm(streamPath, { force: true });
+        await fs.promises.rm(repairedPath, { force: true });
+    }
+}
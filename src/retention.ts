@@ -0,0 +1,71 @@
+import fs from 'fs';
+
+const bytesInGb = 1024 * 1024 * 1024;
+const dayInMs = 1000 * 60 * 60 * 24;
+
+export interface RetentionFile {
+    fullPath: string;
+    timestamp: number;
+    size: number;
+}
+
+export interface RetentionPolicy {
+    maxSpaceInGb: number;
+    maxDays?: number;
+    minFreeSpaceInGb?: number;
+}
+
+export type RetentionReason = 'space' | 'age' | 'freeSpace';
+
+export const bytesToGb = (bytes: number) => bytes / bytesInGb;
+
+export const getFreeSpaceInGb = async (folder: string) => {
+    try {
+        const stats = await fs.promises.statfs(folder);
+        return bytesToGb(stats.bavail * stats.bsize);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Returns the files to delete, oldest first, to satisfy the given policy
+ */
+export const getFilesToDelete = <T extends RetentionFile>(props: {
+    files: T[],
+    policy: RetentionPolicy,
+    freeSpaceInGb?: number,
+    now?: number,
+}) => {
+    const { files, policy, freeSpaceInGb, now = Date.now() } = props;
+    const { maxSpaceInGb, maxDays, minFreeSpaceInGb } = policy;
+
+    const sortedFiles = [...files].sort((a, b) => a.timestamp - b.timestamp);
+    const oldestTimestamp = maxDays ? now - maxDays * dayInMs : undefined;
+    let occupiedBytes = sortedFiles.reduce((tot, file) => tot + file.size, 0);
+    let freeBytes = freeSpaceInGb !== undefined ? freeSpaceInGb * bytesInGb : undefined;
+
+    const toDelete: { file: T, reason: RetentionReason }[] = [];
+    for (const file of sortedFiles) {
+        let reason: RetentionReason;
+        if (oldestTimestamp && file.timestamp < oldestTimestamp) {
+            reason = 'age';
+        } else if (maxSpaceInGb && occupiedBytes > maxSpaceInGb * bytesInGb) {
+            reason = 'space';
+        } else if (minFreeSpaceInGb && freeBytes !== undefined && freeBytes < minFreeSpaceInGb * bytesInGb) {
+            reason = 'freeSpace';
+        }
+
+        if (!reason) {
+            break;
+        }
+
+        toDelete.push({ file, reason });
+        occupiedBytes -= file.size;
+        if (freeBytes !== undefined) {
+            freeBytes += file.size;
+        }
+    }
+
+    return toDelete;
+}
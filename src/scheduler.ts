@@ -0,0 +1,165 @@
+export type RequestPriority = 'playback' | 'search' | 'background';
+
+const priorityOrder: RequestPriority[] = ['playback', 'search', 'background'];
+
+// Requests waiting longer than this are logged together with the queue state
+const slowWaitMs = 1000 * 10;
+
+export interface RequestSchedulerOptions {
+    maxConcurrent: number;
+    timeoutMs: number;
+    console: Console;
+}
+
+export interface RequestSchedulerMetrics {
+    active: number;
+    activeLongRunning: number;
+    queued: Record<RequestPriority, number>;
+    completed: number;
+    failed: number;
+    timedOut: number;
+    averageWaitMs: number;
+    maxWaitMs: number;
+}
+
+interface QueuedRequest {
+    label: string;
+    longRunning: boolean;
+    queuedAt: number;
+    start: () => void;
+}
+
+/**
+ * Limits the concurrent requests to a host, queued requests start by priority
+ * and then in order of arrival. Long running requests, i.e. streams, never take
+ * all the slots from the short ones, one of these can always run
+ */
+export class RequestScheduler {
+    private active = 0;
+    private activeLongRunning = 0;
+    private queues: Record<RequestPriority, QueuedRequest[]> = {
+        playback: [],
+        search: [],
+        background: [],
+    };
+    private started = 0;
+    private completed = 0;
+    private failed = 0;
+    private timedOut = 0;
+    private totalWaitMs = 0;
+    private maxWaitMs = 0;
+
+    constructor(public host: string, public options: RequestSchedulerOptions) {
+    }
+
+    /**
+     * Waits for a free slot, the returned function must be called once the request is done
+     */
+    acquire(priority: RequestPriority, label = 'request', longRunning = false) {
+        return new Promise<() => void>(resolve => {
+            this.queues[priority].push({
+                label,
+                longRunning,
+                queuedAt: Date.now(),
+                start: () => {
+                    let released = false;
+                    resolve(() => {
+                        if (!released) {
+                            released = true;
+                            this.active--;
+                            longRunning && this.activeLongRunning--;
+                            this.next();
+                        }
+                    });
+                },
+            });
+            this.next();
+        });
+    }
+
+    /**
+     * Runs the task in a slot, aborting it after the timeout. A timeout of 0 disables it.
+     * The slot is released on timeout, tasks must stop on the abort of the signal
+     */
+    async run<T>(task: (signal: AbortSignal) => Promise<T>, props: { priority: RequestPriority, label?: string, timeoutMs?: number, longRunning?: boolean }): Promise<T> {
+        const { priority, label, timeoutMs = this.options.timeoutMs, longRunning } = props;
+        const release = await this.acquire(priority, label, longRunning);
+        const controller = new AbortController();
+        let timeout: NodeJS.Timeout;
+
+        try {
+            const result = await Promise.race([
+                task(controller.signal),
+                new Promise<never>((_, reject) => {
+                    if (timeoutMs) {
+                        timeout = setTimeout(() => {
+                            this.timedOut++;
+                            const error = new Error(`Request ${label ?? ''} to ${this.host} timed out after ${timeoutMs}ms`);
+                            controller.abort(error);
+                            reject(error);
+                        }, timeoutMs);
+                    }
+                }),
+            ]);
+            this.completed++;
+
+            return result;
+        } catch (e) {
+            this.failed++;
+            throw e;
+        } finally {
+            clearTimeout(timeout);
+            release();
+        }
+    }
+
+    private canStart(request: QueuedRequest) {
+        if (this.active < Math.max(1, this.options.maxConcurrent)) {
+            return true;
+        }
+
+        // The slots are all taken by long running requests
+        return !request.longRunning && this.active === this.activeLongRunning;
+    }
+
+    private next() {
+        while (true) {
+            const queue = priorityOrder.map(priority => this.queues[priority]).find(queue => queue.some(request => this.canStart(request)));
+            if (!queue) {
+                return;
+            }
+
+            const request = queue.splice(queue.findIndex(request => this.canStart(request)), 1)[0];
+
+            const waitMs = Date.now() - request.queuedAt;
+            this.totalWaitMs += waitMs;
+            this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+            this.active++;
+            request.longRunning && this.activeLongRunning++;
+            this.started++;
+
+            if (waitMs > slowWaitMs) {
+                this.options.console.log(`${request.label} to ${this.host} waited ${waitMs}ms in the queue: ${JSON.stringify(this.getMetrics())}`);
+            }
+
+            request.start();
+        }
+    }
+
+    getMetrics(): RequestSchedulerMetrics {
+        return {
+            active: this.active,
+            activeLongRunning: this.activeLongRunning,
+            queued: {
+                playback: this.queues.playback.length,
+                search: this.queues.search.length,
+                background: this.queues.background.length,
+            },
+            completed: this.completed,
+            failed: this.failed,
+            timedOut: this.timedOut,
+            averageWaitMs: this.started ? Math.round(this.totalWaitMs / this.started) : 0,
+            maxWaitMs: this.maxWaitMs,
+        };
+    }
+}
@@ -0,0 +1,241 @@
+import fs from 'fs';
+import { VideoSearchResult } from './client';
+import { getDayBounds, TimeConverter } from './timezone';
+
+interface CachedDay {
+    fetchedAt: number;
+    dayEnd: number;
+    results: VideoSearchResult[];
+}
+
+interface SearchCacheContent {
+    days: Record<string, CachedDay>;
+    storageFingerprint?: StorageFingerprint;
+    timezone?: string;
+}
+
+export interface StorageFingerprint {
+    capacity: number;
+    usedSpace: number;
+}
+
+// Clips still being written at midnight appear a bit later
+const dayCompletionMarginMs = 1000 * 60 * 10;
+const maxCachedDays = 45;
+
+
+/**
+ * Caches the camera search results per calendar day. Days fetched after
+ * their end are considered immutable, the current one expires after the TTL
+ */
+export class SearchResultsCache {
+    days: Record<string, CachedDay> = {};
+    storageFingerprint: StorageFingerprint;
+    timezone: string;
+    private pendingFetches = new Map<string, Promise<VideoSearchResult[]>>();
+    private saving = Promise.resolve();
+
+    constructor(public options: {
+        cacheFile: string,
+        ttlMs: number,
+        timeConverter: () => TimeConverter,
+        console: Console,
+    }) {
+        this.load();
+    }
+
+    private load() {
+        const { cacheFile, console } = this.options;
+        try {
+            if (fs.existsSync(cacheFile)) {
+                const content: SearchCacheContent = JSON.parse(fs.readFileSync(cacheFile, 'utf-8'));
+                this.days = content.days ?? {};
+                this.storageFingerprint = content.storageFingerprint;
+                this.timezone = content.timezone;
+            }
+        } catch (e) {
+            console.log('Error loading the search cache', e);
+        }
+    }
+
+    /**
+     * Writes are queued, to not overlap on the same temporary file
+     */
+    private save() {
+        this.saving = this.saving
+            .then(() => this.write())
+            .catch(e => this.options.console.log('Error saving the search cache', e));
+
+        return this.saving;
+    }
+
+    private async write() {
+        const { cacheFile } = this.options;
+
+        const sortedKeys = Object.entries(this.days)
+            .sort(([, a], [, b]) => b.dayEnd - a.dayEnd)
+            .map(([key]) => key);
+        for (const key of sortedKeys.slice(maxCachedDays)) {
+            delete this.days[key];
+        }
+
+        const content: SearchCacheContent = {
+            days: this.days,
+            storageFingerprint: this.storageFingerprint,
+            timezone: this.timezone,
+        };
+        const tmpFile = `${cacheFile}.tmp`;
+        await fs.promises.writeFile(tmpFile, JSON.stringify(content));
+        await fs.promises.rename(tmpFile, cacheFile);
+    }
+
+    private isValid(day: CachedDay, now: number) {
+        if (day.fetchedAt > day.dayEnd + dayCompletionMarginMs) {
+            return true;
+        }
+
+        return now - day.fetchedAt < this.options.ttlMs;
+    }
+
+    /**
+     * Returns the results overlapping the range, which must be within a single day.
+     * The whole day is fetched and cached
+     */
+    async search(props: {
+        startTime: number,
+        endTime: number,
+        fetchDay: (dayStart: number, dayEnd: number) => Promise<VideoSearchResult[]>,
+        cacheOnly?: boolean,
+    }) {
+        const { startTime, endTime, fetchDay, cacheOnly } = props;
+        const { console } = this.options;
+        const timeConverter = this.options.timeConverter();
+        const now = Date.now();
+        const { year, mon, day: dayOfMonth } = timeConverter.toSearchTime(startTime);
+        const key = `${year}-${mon}-${dayOfMonth}`;
+
+        let day = this.days[key];
+        if (cacheOnly) {
+            if (!day) {
+                console.debug(`Search results of ${key} not cached`);
+                return [];
+            }
+        } else if (!day || !this.isValid(day, now)) {
+            let pending = this.pendingFetches.get(key);
+            if (!pending) {
+                const { start: dayStart, end: dayEnd } = getDayBounds(timeConverter, startTime);
+
+                pending = fetchDay(dayStart, dayEnd)
+                    .then(async results => {
+                        this.days[key] = {
+                            fetchedAt: Date.now(),
+                            dayEnd,
+                            results,
+                        };
+                        await this.save();
+
+                        return results;
+                    })
+                    .finally(() => this.pendingFetches.delete(key));
+                this.pendingFetches.set(key, pending);
+            }
+
+            try {
+                await pending;
+            } catch (e) {
+                // Stale results are better than none
+                if (!this.days[key]) {
+                    throw e;
+                }
+                console.log(`Error refreshing the search of ${key}, using cached results`, e.message);
+            }
+            day = this.days[key];
+        } else {
+            console.debug(`Search results of ${key} served from cache`);
+        }
+
+        return day.results.filter(result =>
+            timeConverter.toTimestamp(result.StartTime) <= endTime &&
+            timeConverter.toTimestamp(result.EndTime) >= startTime
+        );
+    }
+
+    /**
+     * Days of the month, 1 based, having cached results
+     */
+    getCachedDays(year: number, month: number) {
+        const timeConverter = this.options.timeConverter();
+        const days = new Set<number>();
+        for (const day of Object.values(this.days)) {
+            const dayEnd = timeConverter.toSearchTime(day.dayEnd);
+            if (day.results.length && dayEnd.year === year && dayEnd.mon === month) {
+                days.add(dayEnd.day);
+            }
+        }
+
+        return days;
+    }
+
+    getVideoclipNames() {
+        return Object.values(this.days).flatMap(day => day.results.map(result => result.name));
+    }
+
+    getVideoclip(name: string) {
+        for (const day of Object.values(this.days)) {
+            const result = day.results.find(result => result.name === name);
+            if (result) {
+                return result;
+            }
+        }
+    }
+
+    removeVideoclips(names: string[]) {
+        for (const day of Object.values(this.days)) {
+            day.results = day.results.filter(result => !names.includes(result.name));
+        }
+        this.save();
+    }
+
+    invalidate() {
+        this.days = {};
+        this.save();
+    }
+
+    /**
+     * Days are in the camera timezone, they change with it
+     */
+    checkTimezone(timezone: string) {
+        if (this.timezone === timezone) {
+            return;
+        }
+
+        this.options.console.log(`Camera timezone changed, invalidating the search cache: ${JSON.stringify({ previous: this.timezone, timezone })}`);
+        this.days = {};
+        this.timezone = timezone;
+        this.save();
+    }
+
+    /**
+     * Invalidates the cache when the storage looks formatted or replaced
+     */
+    checkStorageFingerprint(fingerprint: StorageFingerprint) {
+        const { console } = this.options;
+        const previous = this.storageFingerprint;
+        this.storageFingerprint = fingerprint;
+
+        if (previous && (
+            previous.capacity !== fingerprint.capacity ||
+            fingerprint.usedSpace < previous.usedSpace / 2
+        )) {
+            console.log(`Storage changed, invalidating the search cache: ${JSON.stringify({ previous, fingerprint })}`);
+            this.invalidate();
+            return true;
+        }
+
+        if (!previous || previous.usedSpace !== fingerprint.usedSpace) {
+            this.save();
+        }
+
+        return false;
+    }
+}
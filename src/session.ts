@@ -0,0 +1,400 @@
+import { AuthFetchCredentialState, authHttpFetch } from '@scrypted/common/src/http-auth-fetch';
+import { PassThrough, Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import { HttpFetchOptions } from '../../scrypted/server/src/fetch/http-fetch';
+import { RequestPriority, RequestScheduler } from './scheduler';
+
+export interface ReolinkChannel {
+    channel: number;
+    name: string;
+    online: boolean;
+    sleep: boolean;
+    typeInfo: string;
+}
+
+export interface ReolinkConnectionOptions {
+    protocol?: 'http' | 'https';
+    port?: number;
+    // PEM of the CA, or of the self signed certificate, of the camera
+    caCertificate?: string;
+    // SHA-256 fingerprint of the camera certificate, with or without colons
+    certificateFingerprint?: string;
+}
+
+export interface ReolinkDeviceInfo {
+    model: string;
+    name: string;
+    type: string;
+    channelNum: number;
+    channels: ReolinkChannel[];
+}
+
+const normalizeFingerprint = (fingerprint: string) => fingerprint.replace(/[^a-fA-F0-9]/g, '').toUpperCase();
+
+const createReadable = (data: any) => {
+    const pt = new PassThrough();
+    pt.write(Buffer.from(JSON.stringify(data)));
+    pt.end();
+    return pt;
+}
+
+// Renew the token a bit before the lease ends, to not use an expired one mid request
+const tokenRenewMarginMs = 1000 * 60;
+const loginBackoffMinMs = 1000 * 5;
+const loginBackoffMaxMs = 1000 * 60 * 5;
+// rspCode -6 is "please login first", returned for expired or invalid tokens
+const invalidTokenCodes = [-6];
+
+const isInvalidTokenResponse = (body: any) => {
+    if (!Array.isArray(body)) {
+        return false;
+    }
+
+    return body.some(entry => entry?.error && (
+        invalidTokenCodes.includes(entry.error.rspCode) ||
+        /login first|invalid token/i.test(entry.error.detail ?? '')
+    ));
+}
+
+/**
+ * Logged in session on a Reolink host. NVRs and Home Hubs allow only a few
+ * sessions, the same one is shared by all the channels of the host
+ */
+export class ReolinkSession {
+    credential: AuthFetchCredentialState;
+    parameters: Record<string, string> = {};
+    tokenLease: number;
+    deviceInfo: ReolinkDeviceInfo;
+    closed = false;
+    private loginPromise: Promise<void>;
+    private loginFailures = 0;
+    private nextLoginAttempt = 0;
+
+    constructor(
+        public host: string,
+        public username: string,
+        public password: string,
+        public console: Console,
+        public scheduler: RequestScheduler,
+        public connection: ReolinkConnectionOptions = {},
+    ) {
+        this.credential = {
+            username,
+            password,
+        };
+    }
+
+    get baseUrl() {
+        const { protocol = 'http', port } = this.connection;
+        return `${protocol}://${this.host}${port ? `:${port}` : ''}`;
+    }
+
+    /**
+     * Options of the requests made outside of the authenticated fetch, the fingerprint is checked on connection
+     */
+    get tlsOptions(): tls.ConnectionOptions {
+        const { protocol, caCertificate } = this.connection;
+        if (protocol !== 'https') {
+            return {};
+        }
+
+        if (caCertificate) {
+            // Cameras are reached by IP, the name on the certificate rarely matches
+            return { ca: caCertificate, rejectUnauthorized: true, checkServerIdentity: () => undefined };
+        }
+
+        return { rejectUnauthorized: false };
+    }
+
+    /**
+     * Certificate pinned by CA or fingerprint, the requests can't go through the authenticated fetch
+     */
+    get isPinned() {
+        const { protocol, caCertificate, certificateFingerprint } = this.connection;
+        return protocol === 'https' && !!(caCertificate || certificateFingerprint);
+    }
+
+    /**
+     * Request with the connection TLS options, the pinned certificate is checked on connection
+     */
+    private createRequest(url: string, options: http.RequestOptions, callback: (res: http.IncomingMessage) => void) {
+        const { certificateFingerprint } = this.connection;
+        const isHttps = url.startsWith('https:');
+        const req = (isHttps ? https : http).request(url, { ...options, ...(isHttps ? this.tlsOptions : {}) }, callback);
+
+        if (isHttps && certificateFingerprint) {
+            req.on('socket', (socket: tls.TLSSocket) => {
+                const checkCertificate = () => {
+                    const fingerprint = socket.getPeerCertificate()?.fingerprint256;
+                    if (!fingerprint || normalizeFingerprint(fingerprint) !== normalizeFingerprint(certificateFingerprint)) {
+                        req.destroy(new Error(`Certificate of ${this.host} does not match the pinned fingerprint: ${fingerprint}`));
+                    }
+                }
+
+                // Keep-alive sockets are already connected
+                socket.connecting ? socket.once('secureConnect', checkCertificate) : checkCertificate();
+            });
+        }
+
+        return req;
+    }
+
+    /**
+     * GET outside of the scheduler and of the authenticated fetch, i.e. streams and downloads
+     */
+    get(url: string, options: http.RequestOptions, callback: (res: http.IncomingMessage) => void) {
+        const req = this.createRequest(url, options, callback);
+        req.end();
+
+        return req;
+    }
+
+    /**
+     * API request on a pinned connection. Reolink APIs authenticate with the token
+     * and the login body, the HTTP authentication of the authenticated fetch is not needed
+     */
+    private async pinnedFetch(options: HttpFetchOptions<Readable>, body: Readable, signal: AbortSignal) {
+        const url = options.url as URL;
+        const res = await new Promise<http.IncomingMessage>((resolve, reject) => {
+            const req = this.createRequest(url.toString(), {
+                method: options.method ?? 'GET',
+                headers: body ? { 'Content-Type': 'application/json' } : {},
+                signal,
+            }, resolve);
+            req.on('error', reject);
+            if (options.timeout) {
+                req.setTimeout(options.timeout, () => req.destroy(new Error(`Request timed out after ${options.timeout}ms`)));
+            }
+
+            body ? pipeline(body, req).catch(reject) : req.end();
+        });
+
+        const chunks: Buffer[] = [];
+        for await (const chunk of res) {
+            chunks.push(chunk);
+        }
+        const buffer = Buffer.concat(chunks);
+
+        if (res.statusCode >= 400 && !options.ignoreStatusCode) {
+            throw new Error(`${url.searchParams.get('cmd') ?? url.pathname} failed: ${res.statusCode} - ${res.statusMessage}`);
+        }
+
+        return {
+            statusCode: res.statusCode,
+            statusMessage: res.statusMessage,
+            headers: res.headers,
+            body: options.responseType === 'json' ? JSON.parse(buffer.toString()) :
+                options.responseType === 'text' ? buffer.toString() :
+                    buffer,
+        };
+    }
+
+    get isLoggedIn() {
+        return !!this.parameters.token && this.tokenLease - tokenRenewMarginMs > Date.now();
+    }
+
+    async close() {
+        this.closed = true;
+        await this.loginPromise?.catch(() => { });
+        await this.logout().catch(e => this.console.log('Error during logout', e));
+    }
+
+    private async request(options: HttpFetchOptions<Readable>, body?: Readable, priority: RequestPriority = 'search') {
+        const url = options.url as URL;
+        // Timed out requests are aborted, to not keep the connections to the camera busy
+        const response = await this.scheduler.run((signal) => this.isPinned ?
+            this.pinnedFetch(options, body, signal) :
+            authHttpFetch({
+                ...options,
+                rejectUnauthorized: false,
+                credential: this.credential,
+                body,
+                signal,
+            }), {
+            priority,
+            label: url.searchParams.get('cmd') ?? url.pathname,
+            timeoutMs: options.timeout,
+        });
+        return response;
+    }
+
+    async logout() {
+        if (!this.parameters.token) {
+            return;
+        }
+
+        const url = new URL(`${this.baseUrl}/api.cgi`);
+        const params = url.searchParams;
+        params.set('cmd', 'Logout');
+        params.set('token', this.parameters.token);
+        this.invalidate();
+
+        await this.request({
+            url,
+            responseType: 'json',
+        }, undefined, 'background');
+    }
+
+    invalidate() {
+        this.parameters = {};
+        this.tokenLease = undefined;
+    }
+
+    /**
+     * Concurrent callers wait for the same login, failures are retried with an exponential backoff
+     */
+    async login() {
+        if (this.closed) {
+            throw new Error(`Session on ${this.host} closed`);
+        }
+
+        if (this.isLoggedIn) {
+            return;
+        }
+
+        if (!this.loginPromise) {
+            const now = Date.now();
+            if (now < this.nextLoginAttempt) {
+                throw new Error(`Login on ${this.host} failed ${this.loginFailures} times, retrying in ${Math.round((this.nextLoginAttempt - now) / 1000)} seconds`);
+            }
+
+            this.loginPromise = this.loginInternal().finally(() => this.loginPromise = undefined);
+        }
+
+        return this.loginPromise;
+    }
+
+    private async loginInternal() {
+        if (this.tokenLease) {
+            this.console.log(`token expiring at ${this.tokenLease}, renewing...`);
+        }
+
+        try {
+            const url = new URL(`${this.baseUrl}/api.cgi`);
+            url.searchParams.set('cmd', 'Login');
+            const body = [
+                {
+                    cmd: "Login",
+                    param: {
+                        User: {
+                            Version: "0",
+                            userName: this.username,
+                            password: this.password,
+                        }
+                    }
+                }
+            ];
+
+            // Every other request waits for the login, it goes first
+            const response = await this.request({
+                url,
+                responseType: 'json',
+                method: 'POST',
+            }, createReadable(body), 'playback');
+
+            const token = response.body?.[0]?.value?.Token;
+            if (!token?.name) {
+                throw new Error(`Login failed: ${JSON.stringify(response.body?.[0]?.error)}`);
+            }
+
+            this.parameters = { token: token.name };
+            this.tokenLease = Date.now() + 1000 * (token.leaseTime ?? 3600);
+            this.loginFailures = 0;
+            this.nextLoginAttempt = 0;
+            this.console.log(`New token: ${token.name}`);
+        } catch (e) {
+            this.loginFailures++;
+            const backoff = Math.min(loginBackoffMinMs * 2 ** (this.loginFailures - 1), loginBackoffMaxMs);
+            this.nextLoginAttempt = Date.now() + backoff;
+            this.console.log(`Login on ${this.host} failed, next attempt in ${backoff / 1000} seconds`, e.message);
+            throw e;
+        }
+    }
+
+    /**
+     * Sends the request with the session token, the body is serialized as JSON.
+     * Requests rejected for an invalid token are retried once with a new login
+     */
+    async requestWithLogin(options: HttpFetchOptions<Readable>, body?: any, priority: RequestPriority = 'search') {
+        for (let attempt = 0; ; attempt++) {
+            await this.login();
+            const token = this.parameters.token;
+            const url = options.url as URL;
+            const params = url.searchParams;
+            for (const [k, v] of Object.entries(this.parameters)) {
+                params.set(k, v);
+            }
+
+            const response = await this.request(options, body !== undefined ? createReadable(body) : undefined, priority);
+
+            if (attempt === 0 && options.responseType === 'json' && isInvalidTokenResponse(response.body)) {
+                this.console.log(`Token rejected by ${this.host}, logging in again`);
+                // Another request could have already renewed it
+                if (this.parameters.token === token) {
+                    this.invalidate();
+                }
+                continue;
+            }
+
+            return response;
+        }
+    }
+
+    /**
+     * Model and channels of the host, cameras report a single channel
+     */
+    async getDeviceInfo(forceRefresh?: boolean) {
+        if (this.deviceInfo && !forceRefresh) {
+            return this.deviceInfo;
+        }
+
+        const url = new URL(`${this.baseUrl}/api.cgi`);
+
+        const body = [
+            {
+                cmd: "GetDevInfo",
+                action: 0,
+                param: {}
+            },
+            {
+                cmd: "GetChannelstatus",
+                action: 0,
+                param: {}
+            }
+        ];
+
+        const response = await this.requestWithLogin({
+            url,
+            responseType: 'json',
+            method: 'POST',
+        }, body);
+
+        const devInfo = response.body?.find(entry => entry.cmd === 'GetDevInfo');
+        if (!devInfo?.value?.DevInfo) {
+            throw new Error(`Error fetching the device info: ${JSON.stringify(devInfo?.error)}`);
+        }
+
+        const { model, name, type, channelNum } = devInfo.value.DevInfo;
+        // Cameras could not support GetChannelstatus
+        const statuses = (response.body?.find(entry => entry.cmd === 'GetChannelstatus')?.value?.status ?? []) as any[];
+
+        this.deviceInfo = {
+            model,
+            name,
+            type,
+            channelNum: channelNum ?? 1,
+            channels: statuses.map(status => ({
+                channel: status.channel,
+                name: status.name,
+                online: status.online === 1,
+                sleep: status.sleep === 1,
+                typeInfo: status.typeInfo,
+            })),
+        };
+
+        return this.deviceInfo;
+    }
+}
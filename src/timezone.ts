@@ -0,0 +1,183 @@
+import type { VideoSearchTime } from './client';
+
+/**
+ * Converts between timestamps and the wall clock times used by the camera
+ */
+export interface TimeConverter {
+    /**
+     * dst disambiguates the repeated hour when the DST ends, i.e. from the _DST filename marker
+     */
+    toTimestamp(time: VideoSearchTime, dst?: boolean): number;
+    toSearchTime(timestamp: number): VideoSearchTime;
+}
+
+interface DstRule {
+    mon: number;
+    // 1 to 4, 5 is the last week of the month
+    week: number;
+    // 0 is sunday
+    weekday: number;
+    hour: number;
+    min: number;
+    sec: number;
+}
+
+export interface CameraTimeSettings {
+    utcOffsetSeconds: number;
+    dst?: {
+        offsetSeconds: number;
+        start: DstRule;
+        end: DstRule;
+    };
+}
+
+/**
+ * Wall clock of the Scrypted server, used until the camera time settings are known
+ */
+export const localTimeConverter: TimeConverter = {
+    toTimestamp: (time) => new Date(time.year, time.mon - 1, time.day, time.hour, time.min, time.sec).getTime(),
+    toSearchTime: (timestamp) => {
+        const date = new Date(timestamp);
+        return {
+            year: date.getFullYear(),
+            mon: date.getMonth() + 1,
+            day: date.getDate(),
+            hour: date.getHours(),
+            min: date.getMinutes(),
+            sec: date.getSeconds(),
+        };
+    },
+}
+
+export const getDayBounds = (converter: TimeConverter, timestamp: number) => {
+    const time = converter.toSearchTime(timestamp);
+
+    return {
+        start: converter.toTimestamp({ ...time, hour: 0, min: 0, sec: 0 }),
+        end: converter.toTimestamp({ ...time, hour: 23, min: 59, sec: 59 }) + 999,
+    };
+}
+
+/**
+ * Parses the response of GetTime. Reolink reports the timezone in seconds west of UTC
+ */
+export const parseCameraTimeSettings = (value: any): CameraTimeSettings => {
+    const { Time, Dst } = value ?? {};
+    if (typeof Time?.timeZone !== 'number') {
+        return;
+    }
+
+    const getRule = (prefix: 'start' | 'end'): DstRule => ({
+        mon: Dst[`${prefix}Mon`],
+        week: Dst[`${prefix}Week`],
+        weekday: Dst[`${prefix}Weekday`],
+        hour: Dst[`${prefix}Hour`] ?? 0,
+        min: Dst[`${prefix}Min`] ?? 0,
+        sec: Dst[`${prefix}Sec`] ?? 0,
+    });
+
+    return {
+        utcOffsetSeconds: -Time.timeZone,
+        dst: Dst?.enable ? {
+            offsetSeconds: (Dst.offset ?? 1) * 3600,
+            start: getRule('start'),
+            end: getRule('end'),
+        } : undefined,
+    };
+}
+
+const wallTimeToUtc = (time: VideoSearchTime, offsetSeconds: number) =>
+    Date.UTC(time.year, time.mon - 1, time.day, time.hour, time.min, time.sec) - offsetSeconds * 1000;
+
+export class CameraTimezone implements TimeConverter {
+    constructor(public settings: CameraTimeSettings) {
+    }
+
+    /**
+     * Day of the month of the rule in the given year
+     */
+    private getRuleDay(year: number, rule: DstRule) {
+        const firstWeekday = new Date(Date.UTC(year, rule.mon - 1, 1)).getUTCDay();
+        const daysInMonth = new Date(Date.UTC(year, rule.mon, 0)).getUTCDate();
+
+        let day = 1 + (rule.weekday - firstWeekday + 7) % 7 + (rule.week - 1) * 7;
+        while (day > daysInMonth) {
+            day -= 7;
+        }
+
+        return day;
+    }
+
+    /**
+     * Transitions happen on the wall clock in effect before them, as in the POSIX rules
+     */
+    private getTransitions(year: number) {
+        const { utcOffsetSeconds, dst } = this.settings;
+
+        const toUtc = (rule: DstRule, offsetSeconds: number) => wallTimeToUtc({
+            year,
+            mon: rule.mon,
+            day: this.getRuleDay(year, rule),
+            hour: rule.hour,
+            min: rule.min,
+            sec: rule.sec,
+        }, offsetSeconds);
+
+        return {
+            start: toUtc(dst.start, utcOffsetSeconds),
+            end: toUtc(dst.end, utcOffsetSeconds + dst.offsetSeconds),
+        };
+    }
+
+    isDst(timestamp: number) {
+        const { utcOffsetSeconds, dst } = this.settings;
+        if (!dst) {
+            return false;
+        }
+
+        const year = new Date(timestamp + utcOffsetSeconds * 1000).getUTCFullYear();
+        const { start, end } = this.getTransitions(year);
+
+        // Southern hemisphere rules end before they start
+        return start < end ?
+            timestamp >= start && timestamp < end :
+            timestamp >= start || timestamp < end;
+    }
+
+    getUtcOffsetSeconds(timestamp: number) {
+        const { utcOffsetSeconds, dst } = this.settings;
+        return utcOffsetSeconds + (this.isDst(timestamp) ? dst.offsetSeconds : 0);
+    }
+
+    toTimestamp(time: VideoSearchTime, dst?: boolean) {
+        const { utcOffsetSeconds, dst: dstSettings } = this.settings;
+        const standard = wallTimeToUtc(time, utcOffsetSeconds);
+        if (!dstSettings) {
+            return standard;
+        }
+
+        const daylight = standard - dstSettings.offsetSeconds * 1000;
+        const isDaylightValid = this.isDst(daylight);
+        const isStandardValid = !this.isDst(standard);
+
+        // The hour repeated when the DST ends is valid in both
+        if (isDaylightValid && isStandardValid && dst !== undefined) {
+            return dst ? daylight : standard;
+        }
+
+        return isDaylightValid ? daylight : standard;
+    }
+
+    toSearchTime(timestamp: number): VideoSearchTime {
+        const date = new Date(timestamp + this.getUtcOffsetSeconds(timestamp) * 1000);
+
+        return {
+            year: date.getUTCFullYear(),
+            mon: date.getUTCMonth() + 1,
+            day: date.getUTCDate(),
+            hour: date.getUTCHours(),
+            min: date.getUTCMinutes(),
+            sec: date.getUTCSeconds(),
+        };
+    }
+}
@@ -0,0 +1,164 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { runFFmpeg } from './ffmpeg';
+import { getFilesToDelete } from './retention';
+
+export interface VideoclipsTranscoderOptions {
+    folder: string;
+    console: Console;
+    maxSpaceInGb?: number;
+}
+
+export interface TranscodingJob {
+    // Written by FFmpeg, renamed to the cache path once completed
+    partPath: string;
+    finalPath: string;
+    // FFmpeg is writing the part file, a leftover one could be there before
+    started: boolean;
+    finished: boolean;
+    done: Promise<string>;
+}
+
+// Codecs the browsers play without transcoding
+export const browserVideoCodecs = ['h264'];
+
+const transcodeTimeout = 1000 * 60 * 30;
+
+/**
+ * Transcodes the clips to H.264/AAC fragmented mp4 on demand, the output can be served
+ * while being written. Results are cached, the least recently used ones are removed above the configured space
+ */
+export class VideoclipsTranscoder {
+    private pending = new Map<string, TranscodingJob>();
+
+    constructor(public options: VideoclipsTranscoderOptions) {
+        if (!fs.existsSync(options.folder)) {
+            fs.mkdirSync(options.folder, { recursive: true });
+        }
+    }
+
+    private getCachePath(name: string) {
+        const hash = crypto.createHash('sha256').update(name).digest('hex').substring(0, 16);
+        const filename = path.basename(name).split('.')[0].replace(/[^\w-]/g, '_');
+
+        return path.join(this.options.folder, `${filename}_${hash}.mp4`);
+    }
+
+    async getCached(name: string) {
+        const cachePath = this.getCachePath(name);
+        if (!fs.existsSync(cachePath)) {
+            return;
+        }
+
+        // The modification time tracks the last use
+        const now = new Date();
+        await fs.promises.utimes(cachePath, now, now).catch(() => { });
+
+        return cachePath;
+    }
+
+    getPending(name: string) {
+        return this.pending.get(this.getCachePath(name));
+    }
+
+    /**
+     * Starts the transcoding in background, concurrent requests of the same clip share the same FFmpeg run.
+     * The schedule bounds the FFmpeg processes
+     */
+    transcode(name: string, input: string, schedule: <T>(task: (signal?: AbortSignal) => Promise<T>) => Promise<T>) {
+        const cachePath = this.getCachePath(name);
+
+        let job = this.pending.get(cachePath);
+        if (!job) {
+            job = {
+                // Not an mp4 extension, partial files are not cached
+                partPath: `${cachePath}.part`,
+                finalPath: cachePath,
+                started: false,
+                finished: false,
+                done: undefined,
+            };
+            const currentJob = job;
+            job.done = schedule((signal) => this.run(input, currentJob, signal)).finally(() => {
+                currentJob.finished = true;
+                this.pending.delete(cachePath);
+            });
+            // Failures are logged by the run
+            job.done.catch(() => { });
+            this.pending.set(cachePath, job);
+        }
+
+        return job;
+    }
+
+    private async run(input: string, job: TranscodingJob, signal?: AbortSignal) {
+        const { console } = this.options;
+        const { partPath, finalPath: cachePath } = job;
+        const startedAt = Date.now();
+
+        try {
+            await fs.promises.rm(partPath, { force: true });
+            job.started = true;
+            await runFFmpeg({
+                args: [
+                    '-i', input,
+                    '-map', '0:v:0',
+                    '-map', '0:a:0?',
+                    '-c:v', 'libx264',
+                    '-preset', 'veryfast',
+                    '-crf', '23',
+                    '-pix_fmt', 'yuv420p',
+                    '-c:a', 'aac',
+                    '-b:a', '128k',
+                    '-movflags', '+frag_keyframe+empty_moov+default_base_moof',
+                    '-f', 'mp4',
+                    partPath,
+                ],
+                console,
+                timeout: transcodeTimeout,
+                signal,
+            });
+            await fs.promises.rename(partPath, cachePath);
+        } catch (e) {
+            console.log(`Error transcoding videoclip to ${cachePath}`, e.message);
+            await fs.promises.rm(partPath, { force: true });
+            throw e;
+        }
+
+        console.log(`Videoclip transcoded in ${Date.now() - startedAt}ms: ${cachePath}`);
+        await this.applyRetention(cachePath).catch(e => console.log('Error applying the transcoding cache retention', e));
+
+        return cachePath;
+    }
+
+    /**
+     * The clip just transcoded is kept, it's about to be served
+     */
+    private async applyRetention(keepPath: string) {
+        const { folder, maxSpaceInGb, console } = this.options;
+        if (!maxSpaceInGb) {
+            return;
+        }
+
+        const files = [];
+        for (const filename of await fs.promises.readdir(folder)) {
+            const fullPath = path.join(folder, filename);
+            if (!filename.endsWith('.mp4') || fullPath === keepPath) {
+                continue;
+            }
+
+            const stat = await fs.promises.stat(fullPath);
+            files.push({ fullPath, timestamp: stat.mtimeMs, size: stat.size });
+        }
+
+        const toDelete = getFilesToDelete({ files, policy: { maxSpaceInGb } });
+        for (const { file } of toDelete) {
+            await fs.promises.rm(file.fullPath, { force: true });
+        }
+
+        if (toDelete.length) {
+            console.log(`Transcoding cache retention removed ${toDelete.length} videoclips`);
+        }
+    }
+}
@@ -1,8 +1,12 @@
 import path from 'path';
 import fs from 'fs';
 import url from 'url';
+import crypto from 'crypto';
 import { name } from '../package.json';
-import sdk, { MediaObject } from '@scrypted/sdk';
+import sdk, { Image, MediaObject, ScryptedMimeTypes, VideoClip } from '@scrypted/sdk';
+import { VideoSearchTime } from './client';
+import { getDayBounds, localTimeConverter, TimeConverter } from './timezone';
+import { runFFmpeg } from './ffmpeg';
 
 const { mediaManager } = sdk;
 export const pluginId = name;
@@ -15,11 +19,20 @@ export const getFolderPaths = (deviceId: string, overridePath?: string) => {
     }
 
     const thumbnailFolder = path.join(basePath, 'thumbnails', deviceId);
+    const indexFolder = path.join(basePath, 'index');
 
-    if (!fs.existsSync(thumbnailFolder)) {
-        fs.mkdirSync(thumbnailFolder, { recursive: true });
+    for (const folder of [thumbnailFolder, indexFolder]) {
+        if (!fs.existsSync(folder)) {
+            fs.mkdirSync(folder, { recursive: true });
+        }
     }
-    return { thumbnailFolder };
+    const indexFile = path.join(indexFolder, `${deviceId}.json`);
+    const searchCacheFile = path.join(indexFolder, `${deviceId}-search.json`);
+    const archiveFolder = path.join(basePath, 'archive', deviceId);
+    const transcodeFolder = path.join(basePath, 'transcoded', deviceId);
+    const hlsFolder = path.join(basePath, 'hls', deviceId);
+
+    return { thumbnailFolder, indexFile, archiveFolder, searchCacheFile, transcodeFolder, hlsFolder };
 }
 
 export const cleanup = (overridePath?: string) => {
@@ -36,15 +49,202 @@ export const cleanup = (overridePath?: string) => {
     }
 }
 
+/**
+ * Resolves the symlinks as well, the file must exist
+ */
+export const isPathInside = (folder: string, filePath: string) => {
+    try {
+        const realFolder = fs.realpathSync(folder);
+        const realPath = fs.realpathSync(filePath);
+
+        return realPath.startsWith(realFolder + path.sep);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Opaque ID of a clip for the public URLs, stable across restarts
+ */
+export const getClipId = (secret: string, videoclipPath: string) => {
+    return crypto.createHmac('sha256', secret).update(`clip:${videoclipPath}`).digest('base64url').substring(0, 32);
+}
+
+export const signWebhookRequest = (secret: string, webhook: string, params: string) => {
+    return crypto.createHmac('sha256', secret).update(`${webhook}:${params}`).digest('base64url');
+}
+
+export const verifyWebhookRequest = (secret: string, webhook: string, params: string, signature: string) => {
+    if (!signature) {
+        return false;
+    }
+
+    const expected = Buffer.from(signWebhookRequest(secret, webhook, params));
+    const actual = Buffer.from(signature);
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Single range of a Range header. Missing or malformed ranges are ignored and return undefined,
+ * null is returned when the range is not satisfiable
+ */
+export const parseRangeHeader = (range: string, size: number): { start: number, end: number } | null | undefined => {
+    const match = /^bytes=(\d*)-(\d*)$/.exec(range?.trim() ?? '');
+    if (!match || (!match[1] && !match[2])) {
+        return undefined;
+    }
+
+    let start: number;
+    let end = size - 1;
+    if (!match[1]) {
+        // Suffix range, the last N bytes
+        const suffixLength = Number(match[2]);
+        if (!suffixLength) {
+            return null;
+        }
+        start = Math.max(0, size - suffixLength);
+    } else {
+        start = Number(match[1]);
+        if (match[2]) {
+            if (Number(match[2]) < start) {
+                return undefined;
+            }
+            end = Math.min(Number(match[2]), size - 1);
+        }
+    }
+
+    if (start >= size) {
+        return null;
+    }
+
+    return { start, end };
+}
+
+export const getThumbnailPath = (thumbnailFolder: string, filename: string) => {
+    return path.join(thumbnailFolder, `${filename.replaceAll(' ', '_')}.jpg`);
+}
+
+export type ThumbnailPosition = { seconds: number } | { percentage: number };
+
+/**
+ * Seconds from the start of the clip, i.e. 5, or a percentage of its duration, i.e. 20%
+ */
+export const parseThumbnailPosition = (value: string): ThumbnailPosition => {
+    const match = /^\s*(\d+(?:\.\d+)?)\s*(%?)\s*$/.exec(value ?? '');
+    if (!match) {
+        return { seconds: 5 };
+    }
+
+    const amount = Number(match[1]);
+    return match[2] ? { percentage: Math.min(amount, 100) } : { seconds: amount };
+}
+
+/**
+ * Undefined when the position is past the end of the clip, or not computable, to take the first keyframe
+ */
+export const getThumbnailSeekSeconds = (position: ThumbnailPosition, durationMs?: number) => {
+    const seconds = 'percentage' in position ?
+        (durationMs ? durationMs / 1000 * position.percentage / 100 : undefined) :
+        position.seconds;
+
+    if (!seconds || (durationMs && seconds >= durationMs / 1000)) {
+        return;
+    }
+
+    return seconds;
+}
+
+/**
+ * Center crop to the aspect ratio, i.e. to fill the timeline grids
+ */
+export const getAspectRatioCrop = (width: number, height: number, aspectRatio: number) => {
+    if (!aspectRatio || !width || !height || Math.abs(width / height - aspectRatio) < 0.01) {
+        return;
+    }
+
+    const cropWidth = Math.min(width, Math.round(height * aspectRatio));
+    const cropHeight = Math.min(height, Math.round(width / aspectRatio));
+
+    return {
+        left: Math.round((width - cropWidth) / 2),
+        top: Math.round((height - cropHeight) / 2),
+        width: cropWidth,
+        height: cropHeight,
+    };
+}
+
+const extractThumbnail = async (props: {
+    videoclipUrl: string,
+    outputFile: string,
+    seekSeconds?: number,
+    width?: number,
+    console: Console,
+    signal?: AbortSignal,
+}) => {
+    const { videoclipUrl, outputFile, seekSeconds, width, console, signal } = props;
+
+    await runFFmpeg({
+        args: [
+            // Without a position the first keyframe is taken
+            ...(seekSeconds ? ['-ss', `${seekSeconds}`] : ['-skip_frame', 'nokey']),
+            '-i', videoclipUrl,
+            '-frames:v', '1',
+            ...(width ? ['-vf', `scale='min(${width},iw)':-2`] : []),
+            '-q:v', '4',
+            '-f', 'image2',
+            outputFile,
+        ],
+        console,
+        timeout: 1000 * 30,
+        signal,
+    });
+
+    return fs.existsSync(outputFile) && fs.statSync(outputFile).size > 0;
+}
+
+const cropToAspectRatio = async (mo: MediaObject, aspectRatio: number) => {
+    const image = await mediaManager.convertMediaObject<Image & MediaObject>(mo, ScryptedMimeTypes.Image);
+    const crop = getAspectRatioCrop(image.width, image.height, aspectRatio);
+    if (!crop) {
+        return mo;
+    }
+
+    const jpeg = await image.toBuffer({ crop, format: 'jpg' });
+    return mediaManager.createMediaObject(jpeg, 'image/jpeg');
+}
+
+export const getImageMediaObject = async (props: {
+    imagePath: string,
+    aspectRatio?: number,
+    console: Console,
+}) => {
+    const { imagePath, aspectRatio, console } = props;
+    const mo = await mediaManager.createMediaObjectFromUrl(url.pathToFileURL(imagePath).toString());
+    if (!aspectRatio) {
+        return mo;
+    }
+
+    return cropToAspectRatio(mo, aspectRatio).catch(e => {
+        console.log(`Error cropping image ${imagePath}, returning it uncropped`, e.message);
+        return mo;
+    });
+}
+
 export const getThumbnailMediaObject = async (props: {
     thumbnailFolder: string,
     filename: string,
     videoclipUrl: string,
     console: Console,
+    position?: ThumbnailPosition,
+    durationMs?: number,
+    // Width of the cached copy, 0 keeps the original size
+    width?: number,
+    aspectRatio?: number,
+    signal?: AbortSignal,
 }) => {
-    const { filename: filenameSrc, thumbnailFolder, videoclipUrl, console } = props;
-    const filename = filenameSrc.replaceAll(' ', '_');
-    const outputThumbnailFile = path.join(thumbnailFolder, `${filename}.jpg`);
+    const { filename, thumbnailFolder, videoclipUrl, console, position = { seconds: 5 }, durationMs, width, aspectRatio, signal } = props;
+    const outputThumbnailFile = getThumbnailPath(thumbnailFolder, filename);
     let thumbnailMo: MediaObject;
 
     try {
@@ -53,27 +253,38 @@ export const getThumbnailMediaObject = async (props: {
             fs.rmSync(outputThumbnailFile);
         }
 
-        if (!fs.existsSync(outputThumbnailFile)) {
+        if (fs.existsSync(outputThumbnailFile)) {
+            // The modification time tracks the last use, for the cache eviction
+            const now = new Date();
+            await fs.promises.utimes(outputThumbnailFile, now, now).catch(() => { });
+        } else {
             console.log(`Thumbnail not found in ${outputThumbnailFile}, generating.`);
+            // Not a jpg extension, to not serve partial files
+            const tmpFile = `${outputThumbnailFile}.tmp`;
+            const seekSeconds = getThumbnailSeekSeconds(position, durationMs);
+
+            let generated = await extractThumbnail({ videoclipUrl, outputFile: tmpFile, seekSeconds, width, console, signal })
+                .catch(e => {
+                    console.log(`Error extracting the thumbnail at ${seekSeconds}s`, e.message);
+                    return false;
+                });
+            if (!generated && seekSeconds) {
+                // The seek went past the end of the clip
+                console.log(`No frame at ${seekSeconds}s, using the first keyframe`);
+                generated = await extractThumbnail({ videoclipUrl, outputFile: tmpFile, width, console, signal });
+            }
 
-            const mo = await mediaManager.createFFmpegMediaObject({
-                inputArguments: [
-                    '-ss', '00:00:05',
-                    '-i', videoclipUrl,
-                ],
-            });
-            const jpeg = await mediaManager.convertMediaObjectToBuffer(mo, 'image/jpeg');
-            if (jpeg.length) {
+            if (generated) {
                 console.log(`Saving thumbnail in ${outputThumbnailFile}`);
-                await fs.promises.writeFile(outputThumbnailFile, jpeg);
+                await fs.promises.rename(tmpFile, outputThumbnailFile);
             } else {
                 console.log('Not saving, image is corrupted');
+                await fs.promises.rm(tmpFile, { force: true });
             }
         }
 
         if (fs.existsSync(outputThumbnailFile)) {
-            const fileURLToPath = url.pathToFileURL(outputThumbnailFile).toString();
-            thumbnailMo = await mediaManager.createMediaObjectFromUrl(fileURLToPath);
+            thumbnailMo = await getImageMediaObject({ imagePath: outputThumbnailFile, aspectRatio, console });
         }
 
         return { thumbnailMo };
@@ -85,6 +296,93 @@ export const getThumbnailMediaObject = async (props: {
     }
 }
 
+export type FilenameTemplateToken = 'year' | 'mon' | 'day' | 'hour' | 'min' | 'sec' | 'channel' | 'camera';
+
+const templateTokenPatterns: Record<FilenameTemplateToken, string> = {
+    year: '(\\d{4})',
+    mon: '(\\d{2})',
+    day: '(\\d{2})',
+    hour: '(\\d{2})',
+    min: '(\\d{2})',
+    sec: '(\\d{2})',
+    channel: '(\\d+)',
+    camera: '([^/]+?)',
+};
+
+export const defaultFilenameTemplate = '*{year}{mon}{day}{hour}{min}{sec}*';
+
+export interface FilenameTemplate {
+    regex: RegExp;
+    tokens: FilenameTemplateToken[];
+}
+
+/**
+ * Compiles a template such as {year}/{mon}/{day}/{camera}_{channel}_{year}{mon}{day}{hour}{min}{sec}
+ * into a regex matching the path of a file, relative to the root folder and without extension.
+ * Templates without folders are matched against the filename only
+ */
+export const compileFilenameTemplate = (template?: string): FilenameTemplate => {
+    const tokens: FilenameTemplateToken[] = [];
+    let pattern = '';
+
+    for (const part of (template || defaultFilenameTemplate).split(/(\{[a-z]+\}|\*)/)) {
+        const token = part.match(/^\{([a-z]+)\}$/)?.[1] as FilenameTemplateToken;
+        if (token && templateTokenPatterns[token]) {
+            tokens.push(token);
+            pattern += templateTokenPatterns[token];
+        } else if (part === '*') {
+            pattern += '[^/]*?';
+        } else {
+            pattern += part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return {
+        regex: new RegExp(`^(?:.*/)?${pattern}$`),
+        tokens,
+    };
+}
+
+export const parseFilenameTemplate = (relativePath: string, template: FilenameTemplate) => {
+    const normalizedPath = relativePath.split(path.sep).join('/');
+    const extension = path.extname(normalizedPath);
+    const match = template.regex.exec(normalizedPath.substring(0, normalizedPath.length - extension.length));
+    if (!match) {
+        return;
+    }
+
+    // Tokens can be repeated, i.e. date in both folders and filename, the last one wins
+    const values: Partial<Record<FilenameTemplateToken, string>> = {};
+    template.tokens.forEach((token, index) => values[token] = match[index + 1]);
+
+    if (!values.year || !values.mon || !values.day) {
+        return;
+    }
+
+    const time: VideoSearchTime = {
+        year: Number(values.year),
+        mon: Number(values.mon),
+        day: Number(values.day),
+        hour: Number(values.hour ?? 0),
+        min: Number(values.min ?? 0),
+        sec: Number(values.sec ?? 0),
+    };
+
+    return {
+        time,
+        channel: values.channel !== undefined ? Number(values.channel) : undefined,
+        camera: values.camera,
+        extension: extension.substring(1).toLowerCase(),
+    };
+}
+
+/**
+ * Reolink marks the clips recorded during the DST, i.e. RecM01_DST20240331_033000_...
+ */
+export const hasDstMarker = (fileName: string) => {
+    return /(?:^|[_/])DST\d{8}/.test(fileName);
+}
+
 export const findStartTimeFromFileName = (fileName: string) => {
     const regex = /.*Rec(\w{3})(?:_|_DST)(\d{8})_(\d{6})_.*/gm;
 
@@ -292,30 +590,70 @@ export const parseVideoclipName = (videoclipPath: string) => {
     }
 }
 
-export const splitDateRangeByDay = (start: number, end: number) => {
+export const splitDateRangeByDay = (start: number, end: number, timeConverter: TimeConverter = localTimeConverter) => {
     const ranges: { start: number, end: number }[] = [];
 
 
-    let currentStart = new Date(start);
-    const endTime = new Date(end);
+    let currentStart = start;
+    const endTime = end;
 
     while (currentStart <= endTime) {
         // Calculate the end of the current day
-        const endOfDay = new Date(currentStart);
-        endOfDay.setHours(23, 59, 59, 999);
+        const endOfDay = getDayBounds(timeConverter, currentStart).end;
 
         // Find the end of the current range
         const currentEnd = endTime < endOfDay ? endTime : endOfDay;
 
         // Add the current range to the result
-        ranges.push({ start: new Date(currentStart).getTime(), end: new Date(currentEnd).getTime() });
+        ranges.push({ start: currentStart, end: currentEnd });
 
         // Exit the loop if we've reached the end
         if (currentEnd >= endTime) break;
 
         // Move to the next day
-        currentStart = new Date(currentEnd.getTime() + 1); // Add 1ms to move to the next interval
+        currentStart = currentEnd + 1; // Add 1ms to move to the next interval
     }
 
     return ranges;
-}
\ No newline at end of file
+}
+/**
+ * Merges the local clips with the ones on the camera. Camera clips overlapping local ones, by start
+ * and duration, are kept only in the local versions, which get the detection classes of the camera clips
+ */
+export const mergeVideoclips = (localVideoclips: VideoClip[], cameraVideoclips: VideoClip[]) => {
+    const localClips = localVideoclips.map(clip => ({ ...clip }));
+    const cameraDetectionClasses = new Map<VideoClip, Set<string>>();
+    const merged: VideoClip[] = [...localClips];
+
+    for (const cameraClip of cameraVideoclips) {
+        const cameraEnd = cameraClip.startTime + (cameraClip.duration ?? 0);
+        // A long camera recording can cover several shorter local clips. Image only events don't hide the camera clips
+        const overlappingClips = localClips.filter(clip => {
+            if (!clip.videoId) {
+                return false;
+            }
+
+            const localEnd = clip.startTime + (clip.duration ?? cameraClip.duration ?? 0);
+            return clip.startTime <= cameraEnd && localEnd >= cameraClip.startTime;
+        });
+
+        if (!overlappingClips.length) {
+            merged.push(cameraClip);
+            continue;
+        }
+
+        for (const localClip of overlappingClips) {
+            const detectionClasses = cameraDetectionClasses.get(localClip) ?? new Set<string>(localClip.detectionClasses ?? []);
+            cameraClip.detectionClasses?.forEach(detectionClass => detectionClasses.add(detectionClass));
+            cameraDetectionClasses.set(localClip, detectionClasses);
+        }
+    }
+
+    for (const [localClip, detectionClasses] of cameraDetectionClasses.entries()) {
+        if (detectionClasses.size) {
+            localClip.detectionClasses = Array.from(detectionClasses);
+        }
+    }
+
+    return merged.sort((a, b) => a.startTime - b.startTime);
+}